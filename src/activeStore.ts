@@ -0,0 +1,82 @@
+// src/activeStore.ts
+import fs from "fs";
+import path from "path";
+import { logger } from "./utils/logger";
+
+const ACTIVE_STORE_FILE = path.join(process.cwd(), "config", "active-store.json");
+
+export interface StorePointer {
+    name: string;           // Gemini resource name, e.g. fileSearchStores/xxx
+    displayName: string;    // versioned display name, e.g. IT_Wiki-v20250101120000
+    promotedAt: string;
+}
+
+export interface ActiveStoreState {
+    active: StorePointer | null;
+    previous: StorePointer | null;  // kept for rollback
+}
+
+export function loadActiveStoreState(): ActiveStoreState {
+    if (!fs.existsSync(ACTIVE_STORE_FILE)) return { active: null, previous: null };
+
+    try {
+        const state = JSON.parse(fs.readFileSync(ACTIVE_STORE_FILE, "utf8"));
+        return { active: state.active || null, previous: state.previous || null };
+    } catch (err) {
+        logger.error("⚠️ Failed to read active store pointer:", err);
+        return { active: null, previous: null };
+    }
+}
+
+function saveActiveStoreState(state: ActiveStoreState) {
+    const dir = path.dirname(ACTIVE_STORE_FILE);
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+
+    // Write then rename so readers never see a half-written pointer
+    const tmp = `${ACTIVE_STORE_FILE}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(state, null, 2), "utf8");
+    fs.renameSync(tmp, ACTIVE_STORE_FILE);
+}
+
+/**
+ * Versioned display name for a freshly built store
+ */
+export function buildVersionedDisplayName(datasetName: string, date = new Date()): string {
+    const stamp = date.toISOString().replace(/[-:T]/g, "").substring(0, 14); // YYYYMMDDHHmmss
+    return `${datasetName}-v${stamp}`;
+}
+
+/**
+ * Switch the pointer to a new store.
+ * The current store becomes "previous"; the store it replaces there is returned so it can be deleted.
+ */
+export function promoteStore(name: string, displayName: string): StorePointer | null {
+    const state = loadActiveStoreState();
+    const retired = state.previous;
+
+    saveActiveStoreState({
+        active: { name, displayName, promotedAt: new Date().toISOString() },
+        previous: state.active
+    });
+
+    return retired;
+}
+
+/**
+ * Swap active and previous stores. Calling it again rolls forward.
+ */
+export function rollbackStore(): ActiveStoreState {
+    const state = loadActiveStoreState();
+    if (!state.previous) {
+        throw new Error("No previous store to roll back to");
+    }
+
+    const next: ActiveStoreState = {
+        active: { ...state.previous, promotedAt: new Date().toISOString() },
+        previous: state.active
+    };
+    saveActiveStoreState(next);
+    return next;
+}
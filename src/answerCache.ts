@@ -0,0 +1,175 @@
+// src/answerCache.ts
+// Answers to repeated questions, so "how to reset VPN" costs two model calls once per TTL instead of every time.
+// ANSWER_CACHE=memory (default) | disk (survives restarts, config/answer-cache.json) | off
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { ConversationTurn } from "./providers";
+import { logger } from "./utils/logger";
+import { answerCacheLookups } from "./metrics";
+
+const CACHE_FILE = path.join(process.cwd(), "config", "answer-cache.json");
+
+const TTL_MS = (Number(process.env.ANSWER_CACHE_TTL_MINUTES) || 60) * 60 * 1000;
+const MAX_ENTRIES = Number(process.env.ANSWER_CACHE_MAX_ENTRIES) || 500;
+
+export type AnswerCacheMode = "memory" | "disk" | "off";
+
+export interface AnswerCacheKey {
+    question: string;
+    customPrompt?: string;          // prompt profile; "" = default system prompt
+    storeName: string;              // active store → answers never outlive a store switch
+    scope?: string | null;
+    history?: ConversationTurn[];
+}
+
+interface CacheEntry<T> {
+    value: T;
+    question: string;               // normalized, for the stats endpoint
+    createdAt: number;
+    hits: number;
+}
+
+// Insertion order = eviction order; a hit moves the entry to the end
+let entries: Map<string, CacheEntry<unknown>> | null = null;
+let hits = 0;
+let misses = 0;
+
+export function getAnswerCacheMode(): AnswerCacheMode {
+    const mode = (process.env.ANSWER_CACHE || "memory").toLowerCase();
+    return mode === "disk" || mode === "off" ? mode : "memory";
+}
+
+/**
+ * Lowercase, single spaces, no trailing punctuation: "How to reset VPN?" = "how to reset vpn"
+ */
+export function normalizeQuestion(question: string): string {
+    return question
+        .toLowerCase()
+        .replace(/\s+/g, " ")
+        .trim()
+        .replace(/[\s?!.]+$/, "");
+}
+
+function cacheKey(key: AnswerCacheKey): string {
+    return crypto.createHash("sha256").update(JSON.stringify([
+        normalizeQuestion(key.question),
+        (key.customPrompt || "").trim(),
+        key.storeName,
+        key.scope || "",
+        (key.history || []).map(turn => [turn.role, turn.text])
+    ])).digest("hex");
+}
+
+// ================= STORAGE =================
+
+function loadEntries(): Map<string, CacheEntry<unknown>> {
+    if (entries) return entries;
+    entries = new Map();
+
+    if (getAnswerCacheMode() === "disk" && fs.existsSync(CACHE_FILE)) {
+        try {
+            const saved: Record<string, CacheEntry<unknown>> = JSON.parse(fs.readFileSync(CACHE_FILE, "utf8"));
+            for (const [key, entry] of Object.entries(saved)) {
+                if (!isExpired(entry)) entries.set(key, entry);
+            }
+            logger.info(`💾 Loaded ${entries.size} cached answer(s) from disk`);
+        } catch (err) {
+            logger.error("⚠️ Failed to read answer cache, starting empty:", err);
+        }
+    }
+    return entries;
+}
+
+function persist() {
+    if (getAnswerCacheMode() !== "disk" || !entries) return;
+
+    try {
+        const dir = path.dirname(CACHE_FILE);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+
+        // Write then rename so a crash never leaves half a file behind
+        const tmp = `${CACHE_FILE}.tmp`;
+        fs.writeFileSync(tmp, JSON.stringify(Object.fromEntries(entries), null, 2), "utf8");
+        fs.renameSync(tmp, CACHE_FILE);
+    } catch (err) {
+        logger.error("⚠️ Failed to write answer cache:", err);
+    }
+}
+
+function isExpired(entry: CacheEntry<unknown>): boolean {
+    return Date.now() - entry.createdAt > TTL_MS;
+}
+
+// ================= CACHE =================
+
+export function getCachedAnswer<T>(key: AnswerCacheKey): T | null {
+    if (getAnswerCacheMode() === "off") return null;
+
+    const cache = loadEntries();
+    const id = cacheKey(key);
+    const entry = cache.get(id);
+
+    if (!entry || isExpired(entry)) {
+        if (entry) cache.delete(id);
+        misses++;
+        answerCacheLookups.inc({ result: "miss" });
+        return null;
+    }
+
+    cache.delete(id);
+    cache.set(id, { ...entry, hits: entry.hits + 1 });
+    hits++;
+    answerCacheLookups.inc({ result: "hit" });
+    return entry.value as T;
+}
+
+export function setCachedAnswer<T>(key: AnswerCacheKey, value: T) {
+    if (getAnswerCacheMode() === "off") return;
+
+    const cache = loadEntries();
+    const id = cacheKey(key);
+    cache.delete(id);
+    cache.set(id, { value, question: normalizeQuestion(key.question), createdAt: Date.now(), hits: 0 });
+
+    while (cache.size > MAX_ENTRIES) {
+        cache.delete(cache.keys().next().value!);
+    }
+    persist();
+}
+
+/**
+ * Drop every cached answer (the store content changed); returns how many were removed
+ */
+export function clearAnswerCache(reason: string): number {
+    const cache = loadEntries();
+    const removed = cache.size;
+    cache.clear();
+    persist();
+
+    if (removed > 0) {
+        logger.info(`🧹 Answer cache cleared (${reason}): ${removed} answer(s) removed`);
+    }
+    return removed;
+}
+
+export function getAnswerCacheStats() {
+    const cache = loadEntries();
+    const top = Array.from(cache.values())
+        .filter(entry => !isExpired(entry))
+        .sort((a, b) => b.hits - a.hits)
+        .slice(0, 10)
+        .map(entry => ({ question: entry.question, hits: entry.hits, cachedAt: new Date(entry.createdAt).toISOString() }));
+
+    return {
+        mode: getAnswerCacheMode(),
+        ttlMinutes: TTL_MS / 60000,
+        maxEntries: MAX_ENTRIES,
+        entries: cache.size,
+        hits,
+        misses,
+        topQuestions: top
+    };
+}
@@ -0,0 +1,126 @@
+// src/apiKeys.ts
+// API keys for the HTTP routes. Listed in config/api-keys.json (preferably as SHA-256 hashes);
+// ADMIN_API_KEY / READER_API_KEY in the env add one key per role for simple setups.
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { logger } from "./utils/logger";
+
+const KEYS_FILE = path.join(process.cwd(), "config", "api-keys.json");
+
+// admin can do everything a reader can
+export type ApiRole = "reader" | "admin";
+const ROLE_LEVEL: Record<ApiRole, number> = { reader: 1, admin: 2 };
+
+export interface ApiKey {
+    name: string;           // who is calling; recorded in the audit log
+    role: ApiRole;
+    keyHash: string;        // hex SHA-256 of the key
+}
+
+let cached: { mtimeMs: number; keys: ApiKey[] } | null = null;
+
+export function hashApiKey(key: string): string {
+    return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+export function roleAllows(role: ApiRole, required: ApiRole): boolean {
+    return ROLE_LEVEL[role] >= ROLE_LEVEL[required];
+}
+
+/**
+ * Entries of config/api-keys.json → keys; throws on the first invalid entry
+ */
+function validateApiKeys(list: any[]): ApiKey[] {
+    const names = new Set<string>();
+    const hashes = new Set<string>();
+
+    return list.map((raw, i) => {
+        const name = String(raw?.name || "").trim();
+        if (!name) throw new Error(`api-keys.json entry ${i}: "name" is required`);
+        if (names.has(name)) throw new Error(`api-keys.json: duplicate key name "${name}"`);
+        names.add(name);
+
+        if (!(raw.role in ROLE_LEVEL)) {
+            throw new Error(`api-keys.json entry "${name}": "role" must be "reader" or "admin"`);
+        }
+
+        let keyHash: string;
+        if (typeof raw.keyHash === "string") {
+            keyHash = raw.keyHash.replace(/^sha256:/, "").toLowerCase();
+            if (!/^[0-9a-f]{64}$/.test(keyHash)) {
+                throw new Error(`api-keys.json entry "${name}": "keyHash" must be a hex SHA-256 hash`);
+            }
+        } else if (typeof raw.key === "string" && raw.key.length >= 16) {
+            keyHash = hashApiKey(raw.key);
+        } else {
+            throw new Error(`api-keys.json entry "${name}": needs "keyHash" or a "key" of at least 16 characters`);
+        }
+
+        if (hashes.has(keyHash)) throw new Error(`api-keys.json entry "${name}": key is already used by another entry`);
+        hashes.add(keyHash);
+
+        return { name, role: raw.role, keyHash };
+    });
+}
+
+function keysFromEnv(): ApiKey[] {
+    const keys: ApiKey[] = [];
+    if (process.env.ADMIN_API_KEY) {
+        keys.push({ name: "env-admin", role: "admin", keyHash: hashApiKey(process.env.ADMIN_API_KEY) });
+    }
+    if (process.env.READER_API_KEY) {
+        keys.push({ name: "env-reader", role: "reader", keyHash: hashApiKey(process.env.READER_API_KEY) });
+    }
+    return keys;
+}
+
+function keysFromFile(): ApiKey[] {
+    if (!fs.existsSync(KEYS_FILE)) {
+        cached = null;
+        return [];
+    }
+
+    const mtimeMs = fs.statSync(KEYS_FILE).mtimeMs;
+    if (cached?.mtimeMs === mtimeMs) return cached.keys;
+
+    const parsed = JSON.parse(fs.readFileSync(KEYS_FILE, "utf8"));
+    const list = Array.isArray(parsed) ? parsed : parsed?.keys;
+    if (!Array.isArray(list)) {
+        throw new Error("config/api-keys.json must be a list of keys");
+    }
+
+    cached = { mtimeMs, keys: validateApiKeys(list) };
+    logger.info(`🔑 Loaded ${cached.keys.length} API key(s): ${cached.keys.map(k => `${k.name} (${k.role})`).join(", ")}`);
+    return cached.keys;
+}
+
+/**
+ * Every configured key (re-read when config/api-keys.json changes)
+ */
+export function loadApiKeys(): ApiKey[] {
+    return [...keysFromEnv(), ...keysFromFile()];
+}
+
+/**
+ * API_AUTH=off opts out explicitly (local development); otherwise keys are required
+ */
+export function isApiAuthDisabled(): boolean {
+    return (process.env.API_AUTH || "").toLowerCase() === "off";
+}
+
+/**
+ * The key matching what the caller presented, compared in constant time
+ */
+export function findApiKey(presented: string): ApiKey | null {
+    const presentedHash = Buffer.from(hashApiKey(presented), "hex");
+    let match: ApiKey | null = null;
+
+    // No early exit: the time taken does not reveal which entry matched
+    for (const key of loadApiKeys()) {
+        if (crypto.timingSafeEqual(presentedHash, Buffer.from(key.keyHash, "hex"))) {
+            match = match || key;
+        }
+    }
+    return match;
+}
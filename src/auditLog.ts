@@ -0,0 +1,61 @@
+// src/auditLog.ts
+// Append-only JSONL record of admin actions (export, sync, synonyms, debug routes): who, what, result.
+import fs from "fs";
+import path from "path";
+import { logger } from "./utils/logger";
+
+const AUDIT_FILE = path.join(process.cwd(), "config", "audit-log.jsonl");
+
+export interface AuditRecord {
+    time: string;
+    requestId?: string;
+    caller: string;             // API key name, or "anonymous" for rejected calls without a key
+    role?: string;
+    method: string;
+    path: string;
+    params?: Record<string, unknown>;
+    ip?: string;
+    status: number;
+    outcome: "allowed" | "denied";
+    durationMs: number;
+}
+
+export function recordAudit(record: AuditRecord) {
+    try {
+        const dir = path.dirname(AUDIT_FILE);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+        fs.appendFileSync(AUDIT_FILE, JSON.stringify(record) + "\n", "utf8");
+    } catch (err) {
+        logger.error("⚠️ Failed to write audit record:", err);
+    }
+
+    const message = record.outcome === "denied" ? "🛡 Admin action denied" : "🛡 Admin action";
+    logger.info(message, {
+        caller: record.caller,
+        method: record.method,
+        path: record.path,
+        status: record.status
+    });
+}
+
+/**
+ * Most recent records first
+ */
+export function readAuditLog(limit = 100): AuditRecord[] {
+    if (!fs.existsSync(AUDIT_FILE)) return [];
+
+    return fs.readFileSync(AUDIT_FILE, "utf8")
+        .split("\n")
+        .filter(line => line.trim().length > 0)
+        .flatMap(line => {
+            try {
+                return [JSON.parse(line) as AuditRecord];
+            } catch {
+                return [];
+            }
+        })
+        .reverse()
+        .slice(0, limit);
+}
@@ -1,24 +1,57 @@
 // src/azureClient.ts
-import axios from "axios";
+import axios, { AxiosInstance } from "axios";
 import dotenv from "dotenv";
+import { WikiConfig } from "./wikiConfig";
 
 dotenv.config();
 
-const org = process.env.AZ_ORG ?? "";
-const project = process.env.AZ_PROJECT ?? "";
-const pat = process.env.AZ_PAT;
-
-if (!pat) {
-  throw new Error("AZ_PAT is not set in .env");
+// Checked lazily (startup validation reports a missing PAT together with other settings)
+function getAuthHeader(): string {
+  const pat = process.env.AZ_PAT;
+  if (!pat) {
+    throw new Error("AZ_PAT is not set in .env");
+  }
+  return Buffer.from(":" + pat).toString("base64");
 }
 
-const authHeader = Buffer.from(":" + pat).toString("base64");
+// One client per configured wiki (org/project can differ); the PAT needs Wiki + Code read on all of them
+const wikiClients = new Map<string, AxiosInstance>();
 
 // 👇 this client is for WIKI specifically
-export const azureWikiClient = axios.create({
-  baseURL: process.env.AZ_CLIENT_URL || `https://dev.azure.com/${org}/${project}/_apis/wiki/wikis`,
-  headers: {
-    Authorization: `Basic ${authHeader}`,
-    "Content-Type": "application/json",
-  },
-});
\ No newline at end of file
+export function getWikiClient(wiki: WikiConfig): AxiosInstance {
+  const baseURL = wiki.clientUrl || `https://dev.azure.com/${wiki.org}/${wiki.project}/_apis/wiki/wikis`;
+
+  let client = wikiClients.get(baseURL);
+  if (!client) {
+    client = axios.create({
+      baseURL,
+      headers: {
+        Authorization: `Basic ${getAuthHeader()}`,
+        "Content-Type": "application/json",
+      },
+    });
+    wikiClients.set(baseURL, client);
+  }
+  return client;
+}
+
+// 👇 Git repository endpoint of the wiki (always from config, never from a webhook payload)
+function getWikiRepoUrl(wiki: WikiConfig): string {
+  return `https://dev.azure.com/${wiki.org}/${wiki.project}` +
+    `/_apis/git/repositories/${wiki.repository || wiki.wikiId}`;
+}
+
+// 👇 Git items endpoint of the wiki repository (attachments, page versions)
+export function getWikiRepoItemsUrl(wiki: WikiConfig): string {
+  return wiki.imageRepoUrl || `${getWikiRepoUrl(wiki)}/items`;
+}
+
+// 👇 Commit diff endpoint of the wiki repository (push webhooks); follows an IMAGE_REPO_URL override
+export function getWikiRepoDiffsUrl(wiki: WikiConfig): string {
+  const repoUrl = wiki.imageRepoUrl?.replace(/\/items\/?$/i, "");
+  return `${repoUrl && repoUrl !== wiki.imageRepoUrl ? repoUrl : getWikiRepoUrl(wiki)}/diffs/commits`;
+}
+
+export function getAzureAuthHeader(): string {
+  return `Basic ${getAuthHeader()}`;
+}
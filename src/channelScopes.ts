@@ -0,0 +1,130 @@
+// src/channelScopes.ts
+// Per-Slack-channel default wiki scope and the "[scope] question" syntax.
+import fs from "fs";
+import path from "path";
+import { WikiConfig, findWikiByScope, parseScopedQuestion, describeWikiScopes } from "./wikiConfig";
+import { isSlackAdmin } from "./slackClient";
+import { logger } from "./utils/logger";
+
+const CHANNEL_SCOPES_FILE = path.join(process.cwd(), "config", "channel-scopes.json");
+
+// channel id → wiki key
+let scopes: Record<string, string> | null = null;
+
+function loadScopes(): Record<string, string> {
+    if (scopes) return scopes;
+    try {
+        scopes = fs.existsSync(CHANNEL_SCOPES_FILE)
+            ? JSON.parse(fs.readFileSync(CHANNEL_SCOPES_FILE, "utf8"))
+            : {};
+    } catch (err) {
+        logger.error("⚠️ Failed to read channel scopes file:", err);
+        scopes = {};
+    }
+    return scopes!;
+}
+
+function saveScopes() {
+    const dir = path.dirname(CHANNEL_SCOPES_FILE);
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(CHANNEL_SCOPES_FILE, JSON.stringify(loadScopes(), null, 2), "utf8");
+}
+
+export function getChannelScope(channel?: string): string | null {
+    if (!channel) return null;
+    return loadScopes()[channel] || null;
+}
+
+/**
+ * Set (or clear with null) the default wiki of a channel
+ */
+export function setChannelScope(channel: string, wikiKey: string | null) {
+    const all = loadScopes();
+    if (wikiKey) {
+        all[channel] = wikiKey;
+    } else {
+        delete all[channel];
+    }
+    saveScopes();
+}
+
+export interface SlackQuestion {
+    question: string;
+    wiki: WikiConfig | null;    // null → all wikis
+    error?: string;             // unknown scope, shown to the user instead of an answer
+}
+
+/**
+ * Explicit "[scope]" prefix first, then the scope the thread started with,
+ * then the channel default, otherwise all wikis
+ */
+export function resolveSlackQuestion(text: string, channel?: string, threadScope?: string | null): SlackQuestion {
+    const parsed = parseScopedQuestion(text);
+    const question = parsed.question;
+    const scope = parsed.scope || threadScope;
+
+    if (scope) {
+        const wiki = findWikiByScope(scope);
+        if (!wiki) {
+            return { question, wiki: null, error: `⚠️ Unknown wiki \`${scope}\`. Available: ${describeWikiScopes()}` };
+        }
+        return { question, wiki };
+    }
+
+    const channelScope = getChannelScope(channel);
+    const wiki = channelScope ? findWikiByScope(channelScope) : null;
+    if (channelScope && !wiki) {
+        logger.warn(`⚠️ Channel ${channel} defaults to unknown wiki "${channelScope}"; searching all wikis`);
+    }
+    return { question, wiki };
+}
+
+const SCOPE_COMMAND = /^scope(?:\s+(\S+))?$/i;
+
+/**
+ * "/wiki scope ..." manages the channel default instead of asking a question
+ */
+export function isScopeCommand(text: string): boolean {
+    return SCOPE_COMMAND.test((text || "").trim());
+}
+
+/**
+ * "/wiki scope", "/wiki scope platform", "/wiki scope off" → reply text; null for normal questions.
+ * Anyone can see the channel default; changing it (it changes answers for the whole channel) needs SLACK_ADMIN_USERS.
+ */
+export function handleScopeCommand(text: string, channel?: string, userId?: string): string | null {
+    const match = (text || "").trim().match(SCOPE_COMMAND);
+    if (!match) return null;
+
+    if (!channel) return "⚠️ Channel scopes can only be set from a channel.";
+
+    const arg = match[1]?.toLowerCase();
+    if (!arg) {
+        const current = getChannelScope(channel);
+        return current
+            ? `🔎 This channel searches \`${current}\` by default. Use \`/wiki scope off\` to search all wikis.`
+            : `🔎 This channel searches all wikis. Set a default with \`/wiki scope <wiki>\` — ${describeWikiScopes()}`;
+    }
+
+    if (!isSlackAdmin(userId)) {
+        logger.warn("🔒 Channel scope change refused", { channel, user: userId, scope: arg });
+        return "🔒 Only wiki admins can change this channel's default wiki. Prefix a question with `[wiki]` to search another one.";
+    }
+
+    if (arg === "off" || arg === "all" || arg === "none") {
+        setChannelScope(channel, null);
+        logger.info("🔎 Channel scope cleared", { channel, user: userId });
+        return "🔎 This channel now searches all wikis.";
+    }
+
+    const wiki = findWikiByScope(arg);
+    if (!wiki) {
+        return `⚠️ Unknown wiki \`${arg}\`. Available: ${describeWikiScopes()}`;
+    }
+
+    setChannelScope(channel, wiki.key);
+    logger.info("🔎 Channel scope set", { channel, user: userId, scope: wiki.key });
+    return `🔎 This channel now searches *${wiki.name}* by default. Prefix a question with \`[wiki]\` to search another one.`;
+}
@@ -0,0 +1,70 @@
+// src/citations.ts
+// Turns the chunks an answer was grounded on into links to the source wiki pages.
+import { RetrievedChunk } from "./providers";
+import { lookupWikiPage, LocalSearchResult } from "./localSearch";
+import { loadManifest } from "./ragManifest";
+
+const MAX_SNIPPET_CHARS = 300;
+
+export interface WikiSource {
+    title: string;
+    remoteUrl: string;
+    snippet: string;
+    section?: string;   // heading the chunk came from ("Parent › Heading")
+}
+
+function trimSnippet(text: string): string {
+    // Drop the TITLE/SOURCE/SECTION header every uploaded chunk starts with
+    const clean = text.replace(/^(TITLE|SOURCE|SECTION):.*$/gm, "").replace(/\s+/g, " ").trim();
+    return clean.length > MAX_SNIPPET_CHARS ? clean.substring(0, MAX_SNIPPET_CHARS) + "…" : clean;
+}
+
+const withoutExtension = (name: string) => name.replace(/\.[^./]+$/, "");
+
+/**
+ * Image descriptions are uploaded as "<image>.txt" with the wiki-relative image path ("platform/diagram.txt"),
+ * so same-named attachments of two wikis stay apart; the manifest knows which page the image belongs to
+ */
+function findImageSourcePage(displayName: string, storeName: string): string | null {
+    const image = withoutExtension(displayName);
+    const { entries } = loadManifest(storeName);
+
+    for (const [file, entry] of Object.entries(entries)) {
+        if (entry.type === "wiki-image" && withoutExtension(file) === image) {
+            return entry.sourcePath;
+        }
+    }
+    return null;
+}
+
+/**
+ * One source per wiki page section, in the order the chunks were retrieved
+ */
+export function buildSources(chunks: RetrievedChunk[], storeName: string): WikiSource[] {
+    const sources = new Map<string, WikiSource>();
+
+    for (const chunk of chunks) {
+        let page = lookupWikiPage(chunk.title);
+        if (!page) {
+            const imagePage = findImageSourcePage(chunk.title, storeName);
+            page = imagePage ? lookupWikiPage(imagePage) : null;
+        }
+
+        const pageTitle = page?.title || chunk.title;
+        const title = page?.section ? `${pageTitle} › ${page.section.split(" › ").pop()}` : pageTitle;
+        if (!title || sources.has(title)) continue;
+
+        sources.set(title, {
+            title,
+            remoteUrl: page?.remoteUrl || "",
+            snippet: trimSnippet(chunk.text),
+            section: page?.section
+        });
+    }
+
+    return Array.from(sources.values());
+}
+
+export function sourcesFromLocalResults(results: LocalSearchResult[]): WikiSource[] {
+    return results.map(r => ({ title: r.title, remoteUrl: r.remoteUrl, snippet: r.snippet }));
+}
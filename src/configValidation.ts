@@ -0,0 +1,204 @@
+// src/configValidation.ts
+// Startup self-check: every setting the server needs is verified once, and all problems are
+// reported together instead of surfacing one by one on the first request that needs them.
+import { loadWikiConfigs } from "./wikiConfig";
+import { parseCron } from "./utils/cron";
+import { readRateLimitConfigFile, validateRateLimitConfig } from "./rateLimits";
+import { loadApiKeys, isApiAuthDisabled } from "./apiKeys";
+import { readSynonymOverridesFile, validateSynonymOverride } from "./synonymStore";
+import { logger } from "./utils/logger";
+
+export type ConfigSeverity = "error" | "warning";
+
+export interface ConfigProblem {
+    severity: ConfigSeverity;
+    setting: string;
+    message: string;
+}
+
+// Optional numeric settings; a typo here silently fell back to the default before
+const NUMERIC_SETTINGS = [
+    "PORT",
+    "GEMINI_UPLOAD_TIMEOUT_SECONDS",
+    "WIKI_SYNC_MAX_ATTEMPTS",
+    "WIKI_SYNC_RETRY_BASE_MS",
+    "WIKI_CRAWL_CONCURRENCY",
+    "WIKI_CRAWL_MAX_ATTEMPTS",
+    "WIKI_CRAWL_RETRY_BASE_MS",
+    "ANSWER_CACHE_TTL_MINUTES",
+    "ANSWER_CACHE_MAX_ENTRIES",
+    "IMAGE_UPLOAD_MAX_MB"
+];
+
+function isSet(name: string): boolean {
+    return !!process.env[name]?.trim();
+}
+
+function checkAzure(problems: ConfigProblem[]) {
+    if (!isSet("AZ_PAT")) {
+        problems.push({ severity: "error", setting: "AZ_PAT", message: "Azure DevOps PAT is required (Wiki + Code read)" });
+    }
+
+    let wikis;
+    try {
+        wikis = loadWikiConfigs();
+    } catch (err) {
+        problems.push({ severity: "error", setting: "config/wikis.json", message: (err as Error).message });
+        return;
+    }
+
+    for (const wiki of wikis) {
+        const setting = wiki.legacy ? "WIKI_ID" : `config/wikis.json (${wiki.key})`;
+        if (!wiki.wikiId) {
+            problems.push({ severity: "error", setting, message: "Wiki id or name is required" });
+        }
+        if ((!wiki.org || !wiki.project) && !(wiki.clientUrl && wiki.imageRepoUrl)) {
+            problems.push({
+                severity: "error",
+                setting: wiki.legacy ? "AZ_ORG / AZ_PROJECT" : setting,
+                message: "Organization and project are required unless both the client and image repo URLs are set"
+            });
+        }
+    }
+}
+
+function checkRagProvider(problems: ConfigProblem[]) {
+    const kind = (process.env.RAG_PROVIDER || "gemini").toLowerCase();
+
+    if (kind === "local") {
+        problems.push({ severity: "warning", setting: "RAG_PROVIDER", message: "Offline local provider in use; answers do not come from Gemini" });
+        return;
+    }
+    if (kind !== "gemini") {
+        problems.push({ severity: "error", setting: "RAG_PROVIDER", message: `Unknown provider "${kind}" (gemini or local)` });
+        return;
+    }
+
+    const geminiKey = process.env.GEMINI_API_KEY?.trim();
+    const legacyKey = process.env.API_KEY?.trim();
+    if (!geminiKey && !legacyKey) {
+        problems.push({ severity: "error", setting: "GEMINI_API_KEY", message: "Gemini API key is required (or set RAG_PROVIDER=local)" });
+    } else if (geminiKey && legacyKey && geminiKey !== legacyKey) {
+        problems.push({ severity: "error", setting: "API_KEY", message: "API_KEY and GEMINI_API_KEY differ; remove API_KEY" });
+    } else if (!geminiKey) {
+        problems.push({ severity: "warning", setting: "API_KEY", message: "API_KEY is deprecated; rename it to GEMINI_API_KEY" });
+    }
+}
+
+function checkOptionalSettings(problems: ConfigProblem[]) {
+    for (const name of NUMERIC_SETTINGS) {
+        const value = process.env[name];
+        if (value !== undefined && value.trim() !== "" && !(Number(value) > 0)) {
+            problems.push({ severity: "error", setting: name, message: `"${value}" is not a positive number` });
+        }
+    }
+
+    if (isSet("WIKI_SYNC_CRON")) {
+        try {
+            parseCron(process.env.WIKI_SYNC_CRON!);
+        } catch (err) {
+            problems.push({ severity: "error", setting: "WIKI_SYNC_CRON", message: (err as Error).message });
+        }
+    }
+
+    const answerCache = process.env.ANSWER_CACHE?.trim().toLowerCase();
+    if (answerCache && !["memory", "disk", "off"].includes(answerCache)) {
+        problems.push({ severity: "error", setting: "ANSWER_CACHE", message: `"${process.env.ANSWER_CACHE}" is not one of memory, disk, off` });
+    }
+
+    const rateLimitStore = process.env.RATE_LIMIT_STORE?.trim().toLowerCase();
+    if (rateLimitStore && !["memory", "file"].includes(rateLimitStore)) {
+        problems.push({ severity: "error", setting: "RATE_LIMIT_STORE", message: `"${process.env.RATE_LIMIT_STORE}" is not one of memory, file` });
+    }
+    try {
+        const rateLimits = readRateLimitConfigFile();
+        for (const message of rateLimits ? validateRateLimitConfig(rateLimits) : []) {
+            problems.push({ severity: "error", setting: "config/rate-limits.json", message });
+        }
+    } catch (err) {
+        problems.push({ severity: "error", setting: "config/rate-limits.json", message: (err as Error).message });
+    }
+    try {
+        const overrides = readSynonymOverridesFile();
+        if (overrides !== null && !Array.isArray(overrides)) {
+            problems.push({ severity: "error", setting: "config/synonym-overrides.json", message: "Must be an array of overrides" });
+        }
+        for (const override of Array.isArray(overrides) ? overrides : []) {
+            for (const message of validateSynonymOverride(override, overrides, override?.id)) {
+                problems.push({ severity: "error", setting: "config/synonym-overrides.json", message: `${override?.id || override?.term}: ${message}` });
+            }
+        }
+    } catch (err) {
+        problems.push({ severity: "error", setting: "config/synonym-overrides.json", message: (err as Error).message });
+    }
+
+    if (isSet("WIKI_WEBHOOK_USERNAME") !== isSet("WIKI_WEBHOOK_PASSWORD")) {
+        problems.push({
+            severity: "error",
+            setting: "WIKI_WEBHOOK_USERNAME / WIKI_WEBHOOK_PASSWORD",
+            message: "Basic auth for the push webhook needs both a username and a password"
+        });
+    }
+
+    if (!isSet("SLACK_SIGNING_SECRET")) {
+        problems.push({ severity: "warning", setting: "SLACK_SIGNING_SECRET", message: "Not set; every Slack request will be rejected" });
+    }
+    if (!isSet("SLACK_BOT_TOKEN")) {
+        problems.push({ severity: "warning", setting: "SLACK_BOT_TOKEN", message: "Not set; Slack Web API calls (mentions, DMs, feedback modal) will fail" });
+    }
+}
+
+function checkApiAuth(problems: ConfigProblem[]) {
+    if (isApiAuthDisabled()) {
+        problems.push({ severity: "warning", setting: "API_AUTH", message: "off; every HTTP route, including export and sync, is open to anyone who can reach the server" });
+        return;
+    }
+
+    try {
+        if (loadApiKeys().length === 0) {
+            problems.push({
+                severity: "warning",
+                setting: "ADMIN_API_KEY / config/api-keys.json",
+                message: "No API keys configured; HTTP routes other than health, Slack and webhooks answer 503 (set keys or API_AUTH=off)"
+            });
+        }
+    } catch (err) {
+        problems.push({ severity: "error", setting: "config/api-keys.json", message: (err as Error).message });
+    }
+}
+
+/**
+ * All configuration problems (errors stop the server, warnings are only logged)
+ */
+export function validateConfig(): ConfigProblem[] {
+    const problems: ConfigProblem[] = [];
+    checkAzure(problems);
+    checkRagProvider(problems);
+    checkOptionalSettings(problems);
+    checkApiAuth(problems);
+    return problems;
+}
+
+/**
+ * Log the problems; returns false when the server must not start
+ */
+export function reportConfigProblems(problems: ConfigProblem[]): boolean {
+    const errors = problems.filter(p => p.severity === "error");
+
+    for (const problem of problems) {
+        const line = `${problem.setting}: ${problem.message}`;
+        if (problem.severity === "error") {
+            logger.error(`❌ Config error — ${line}`);
+        } else {
+            logger.warn(`⚠️ Config warning — ${line}`);
+        }
+    }
+
+    if (errors.length > 0) {
+        logger.error(`🛑 ${errors.length} configuration error(s); fix the settings above (see README → Installation)`);
+        return false;
+    }
+
+    logger.info(`✅ Configuration OK${problems.length ? ` (${problems.length} warning(s))` : ""}`);
+    return true;
+}
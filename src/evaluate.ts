@@ -0,0 +1,214 @@
+// src/evaluate.ts
+// Command line for the golden-set evaluation (see evaluation.ts):
+//   npm run eval -- [--cases <file>] [--offline [--wiki-dir <dir>]] [--out <file>] [--baseline <file>] [--tolerance <n>] [--accept] [--verbose]
+//   npm run eval:offline   (sample corpus + golden set in fixtures/eval)
+// Exit code 1 when scores regress against the baseline or miss the suite thresholds, 2 when the run itself fails.
+// A failing run never replaces its baseline unless --accept is given.
+import fs from "fs";
+import os from "os";
+import path from "path";
+import dotenv from "dotenv";
+import {
+    loadEvalSuite, runEvaluation, compareEvalReports, checkEvalThresholds,
+    EvalCaseResult, EvalReport, EvalRegression
+} from "./evaluation";
+
+interface EvalArgs {
+    cases: string;
+    offline: boolean;
+    wikiDir: string;
+    out?: string;
+    baseline?: string;
+    tolerance: number;
+    accept: boolean;
+    verbose: boolean;
+}
+
+// Config files that shape the pipeline, copied next to the wiki files for an offline run
+const OFFLINE_CONFIG_FILES = ["wikis.json", "synonyms.json", "synonym-overrides.json"];
+const DEFAULT_CASES = "config/eval/golden-set.json";
+
+function parseArgs(argv: string[]): EvalArgs {
+    const args: EvalArgs = {
+        cases: DEFAULT_CASES,
+        offline: false,
+        wikiDir: "config/wiki-files",
+        tolerance: 0,
+        accept: false,
+        verbose: false
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const value = () => {
+            if (i + 1 >= argv.length) throw new Error(`${argv[i]} needs a value`);
+            return argv[++i];
+        };
+        switch (argv[i]) {
+            case "--cases": args.cases = value(); break;
+            case "--offline": args.offline = true; break;
+            case "--wiki-dir": args.wikiDir = value(); break;
+            case "--out": args.out = value(); break;
+            case "--baseline": args.baseline = value(); break;
+            case "--tolerance": args.tolerance = Number(value()); break;
+            case "--accept": args.accept = true; break;
+            case "--verbose": args.verbose = true; break;
+            default: throw new Error(`Unknown option: ${argv[i]}`);
+        }
+    }
+    if (!(args.tolerance >= 0)) throw new Error("--tolerance must be a number ≥ 0");
+    return args;
+}
+
+function print(line = "") {
+    process.stdout.write(line + "\n");
+}
+
+/**
+ * Scratch working directory with a copy of the wiki files: the offline store, its manifest
+ * and the active store pointer live there, so the real ones are never touched
+ */
+function prepareOfflineWorkspace(wikiDir: string): string {
+    if (!fs.existsSync(wikiDir)) throw new Error(`Wiki files not found: ${wikiDir}`);
+
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), "wiki-eval-"));
+    const configDir = path.join(workspace, "config");
+    fs.mkdirSync(configDir, { recursive: true });
+    fs.cpSync(wikiDir, path.join(configDir, "wiki-files"), { recursive: true });
+
+    for (const file of OFFLINE_CONFIG_FILES) {
+        const source = path.join(path.dirname(wikiDir), file);
+        if (fs.existsSync(source)) fs.copyFileSync(source, path.join(configDir, file));
+    }
+    return workspace;
+}
+
+// "last-report-gemini.json" → "last-report-gemini.failed.json"
+function failedReportFile(file: string): string {
+    const ext = path.extname(file);
+    return `${file.slice(0, file.length - ext.length)}.failed${ext || ".json"}`;
+}
+
+function formatRate(value: number | null): string {
+    return value === null ? "   –  " : value.toFixed(4);
+}
+
+function printCase(result: EvalCaseResult) {
+    const pages = result.hit === null ? "" : ` pages ${result.expectedPagesFound.length}/${result.expectedPagesFound.length + result.expectedPagesMissing.length}`;
+    const keywords = result.keywordCoverage === null ? "" : ` keywords ${result.keywordsFound.length}/${result.keywordsFound.length + result.keywordsMissing.length}`;
+    const ok = result.hit !== false && result.keywordsMissing.length === 0 && !result.couldNotFind && !result.error;
+    const notes = [
+        result.couldNotFind ? "could not find" : "",
+        result.fallback ? "fallback" : "",
+        result.error ? `error: ${result.error}` : ""
+    ].filter(Boolean).join(", ");
+    print(`${ok ? "✅" : "❌"} ${result.id}${pages}${keywords}${notes ? ` (${notes})` : ""}`);
+}
+
+function printSummary(report: EvalReport, baseline: EvalReport | null) {
+    const rows: [string, number | null, number | null | undefined][] = [
+        ["retrieval hit rate", report.summary.retrievalHitRate, baseline?.summary.retrievalHitRate],
+        ["page recall", report.summary.pageRecall, baseline?.summary.pageRecall],
+        ["keyword coverage", report.summary.keywordCoverage, baseline?.summary.keywordCoverage],
+        ["could-not-find rate", report.summary.couldNotFindRate, baseline?.summary.couldNotFindRate],
+        ["fallback rate", report.summary.fallbackRate, baseline?.summary.fallbackRate]
+    ];
+
+    print();
+    print(`📊 ${report.summary.cases} cases on ${report.provider} in ${(report.durationMs / 1000).toFixed(1)}s` +
+        (report.summary.errors ? `, ${report.summary.errors} failed to run` : ""));
+    for (const [label, value, before] of rows) {
+        print(`   ${label.padEnd(20)} ${formatRate(value)}${baseline ? `   (baseline ${formatRate(before ?? null)})` : ""}`);
+    }
+}
+
+function printProblems(title: string, reference: string, problems: EvalRegression[]) {
+    if (problems.length === 0) return;
+    print();
+    print(title);
+    for (const p of problems) {
+        print(p.caseId
+            ? `   ${p.caseId}: expected page no longer retrieved`
+            : `   ${p.metric}: ${p.current} (${reference} ${p.baseline})`);
+    }
+}
+
+async function main(): Promise<number> {
+    const args = parseArgs(process.argv.slice(2));
+    const cwd = process.cwd();
+
+    dotenv.config();
+    if (!args.verbose && !process.env.LOG_LEVEL) process.env.LOG_LEVEL = "warn";
+
+    const casesFile = path.resolve(cwd, args.cases);
+    if (!fs.existsSync(casesFile)) {
+        throw new Error(args.cases === DEFAULT_CASES
+            ? `No golden set at ${DEFAULT_CASES}: create one, pass --cases <file>, or run "npm run eval:offline" for the sample set`
+            : `Cases file not found: ${args.cases}`);
+    }
+    const suite = loadEvalSuite(casesFile);
+    const provider = args.offline ? "local" : (process.env.RAG_PROVIDER || "gemini").toLowerCase();
+    const outFile = path.resolve(cwd, args.out || `config/eval/last-report-${provider}.json`);
+
+    // Default baseline = the report this run replaces
+    const baselineFile = args.baseline ? path.resolve(cwd, args.baseline) : outFile;
+    const baseline: EvalReport | null = fs.existsSync(baselineFile)
+        ? JSON.parse(fs.readFileSync(baselineFile, "utf8"))
+        : null;
+
+    let workspace: string | null = null;
+    if (args.offline) {
+        process.env.RAG_PROVIDER = "local";
+        workspace = prepareOfflineWorkspace(path.resolve(cwd, args.wikiDir));
+        process.chdir(workspace);
+    }
+
+    try {
+        // Modules resolve config/ from the working directory when they load → import after chdir
+        const { searchWiki, syncWikiToGeminiRag } = await import("./geminiService");
+
+        if (args.offline) {
+            print(`🧪 Building offline store from ${args.wikiDir}...`);
+            await syncWikiToGeminiRag({ full: true, skipSynonyms: true });
+        }
+
+        print(`🧾 Running ${suite.cases.length} cases from ${args.cases}`);
+        const report = await runEvaluation(
+            suite,
+            searchWiki,
+            { provider, casesFile: path.relative(cwd, casesFile) },
+            printCase
+        );
+
+        printSummary(report, baseline);
+        const regressions = baseline ? compareEvalReports(report, baseline, args.tolerance) : [];
+        const belowThreshold = checkEvalThresholds(report.summary, suite.thresholds);
+        printProblems("📉 Regressions against the baseline:", "was", regressions);
+        printProblems("🚫 Outside the suite thresholds:", "threshold", belowThreshold);
+        const failed = regressions.length > 0 || belowThreshold.length > 0;
+
+        // Writing a failing report over its own baseline would make the next run pass silently
+        const keepBaseline = failed && !args.accept && outFile === baselineFile;
+        const reportFile = keepBaseline ? failedReportFile(outFile) : outFile;
+        fs.mkdirSync(path.dirname(reportFile), { recursive: true });
+        fs.writeFileSync(reportFile, JSON.stringify(report, null, 2) + "\n", "utf8");
+
+        print();
+        print(`📁 Report written to ${path.relative(cwd, reportFile)}${baseline ? "" : " (no baseline yet)"}`);
+        if (keepBaseline) {
+            print(`   Baseline ${path.relative(cwd, baselineFile)} kept; re-run with --accept to make these scores the new baseline`);
+        }
+        return failed ? 1 : 0;
+    } finally {
+        if (workspace) {
+            process.chdir(cwd);
+            fs.rmSync(workspace, { recursive: true, force: true });
+        }
+    }
+}
+
+main()
+    .then(code => process.exit(code))
+    .catch(err => {
+        process.stderr.write(`💥 Evaluation failed: ${err?.message || err}\n`);
+        process.exit(2);
+    });
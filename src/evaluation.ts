@@ -0,0 +1,269 @@
+// src/evaluation.ts
+// Offline evaluation of the answer pipeline against a golden question set: retrieval hit rate,
+// keyword coverage and "could not find" rate per run, compared with an earlier report to catch regressions.
+import fs from "fs";
+import type { SearchOptions, SearchResult } from "./geminiService";
+
+const NOT_FOUND_PATTERN = /could not find information|no answer found/i;
+
+export interface EvalCase {
+    id: string;
+    question: string;
+    scope?: string;
+    expectedPages?: string[];       // wiki page paths ("/Network/VPN"); one of them must be cited
+    requiredKeywords?: string[];    // must appear in the answer (case-insensitive)
+}
+
+export interface EvalThresholds {
+    retrievalHitRate?: number;      // minimums
+    keywordCoverage?: number;
+    couldNotFindRate?: number;      // maximum
+}
+
+export interface EvalSuite {
+    thresholds?: EvalThresholds;
+    cases: EvalCase[];
+}
+
+export interface EvalCaseResult {
+    id: string;
+    question: string;
+    scope?: string;
+    retrievedPages: string[];
+    expectedPagesFound: string[];
+    expectedPagesMissing: string[];
+    hit: boolean | null;            // null when the case lists no expected pages
+    keywordsFound: string[];
+    keywordsMissing: string[];
+    keywordCoverage: number | null;
+    couldNotFind: boolean;
+    fallback: boolean;
+    error?: string;
+}
+
+export interface EvalSummary {
+    cases: number;
+    retrievalHitRate: number | null;
+    pageRecall: number | null;      // share of all expected pages that were cited
+    keywordCoverage: number | null;
+    couldNotFindRate: number;
+    fallbackRate: number;
+    errors: number;
+}
+
+export interface EvalReport {
+    generatedAt: string;
+    provider: string;
+    casesFile: string;
+    durationMs: number;
+    summary: EvalSummary;
+    cases: EvalCaseResult[];        // sorted by id so two reports diff line by line
+}
+
+export interface EvalRegression {
+    metric: string;
+    baseline: number | boolean | null;
+    current: number | boolean | null;
+    caseId?: string;
+}
+
+export type EvalSearch = (question: string, customPrompt: string, options: SearchOptions) => Promise<SearchResult>;
+
+// ================= CASES =================
+
+/**
+ * Golden set file: { "thresholds": {...}, "cases": [...] } or a bare array of cases
+ */
+export function loadEvalSuite(file: string): EvalSuite {
+    const raw = JSON.parse(fs.readFileSync(file, "utf8"));
+    const suite: EvalSuite = Array.isArray(raw) ? { cases: raw } : raw;
+
+    const problems: string[] = [];
+    if (!Array.isArray(suite.cases) || suite.cases.length === 0) {
+        problems.push("cases must be a non-empty array");
+    }
+    const ids = new Set<string>();
+    (suite.cases || []).forEach((c, i) => {
+        const label = c?.id || `#${i + 1}`;
+        if (!c || typeof c.id !== "string" || !c.id.trim()) problems.push(`${label}: id is required`);
+        else if (ids.has(c.id)) problems.push(`${label}: duplicate id`);
+        else ids.add(c.id);
+
+        if (!c || typeof c.question !== "string" || !c.question.trim()) problems.push(`${label}: question is required`);
+        for (const field of ["expectedPages", "requiredKeywords"] as const) {
+            const value = c?.[field];
+            if (value !== undefined && (!Array.isArray(value) || value.some(v => typeof v !== "string"))) {
+                problems.push(`${label}: ${field} must be an array of strings`);
+            }
+        }
+    });
+
+    if (problems.length > 0) {
+        throw new Error(`Invalid evaluation cases in ${file}: ${problems.join("; ")}`);
+    }
+    return suite;
+}
+
+// ================= SCORING =================
+
+function normalizePage(page: string): string {
+    return page.toLowerCase().replace(/[\s_-]+/g, " ").replace(/^\/+|\/+$/g, "").trim();
+}
+
+// "/Network/VPN › Reset the client" → "/Network/VPN"
+function pageOfSource(title: string): string {
+    return title.split(" › ")[0].trim();
+}
+
+function ratio(part: number, total: number): number | null {
+    return total === 0 ? null : Math.round((part / total) * 10000) / 10000;
+}
+
+export function scoreEvalCase(testCase: EvalCase, result: SearchResult): EvalCaseResult {
+    const retrievedPages = Array.from(new Set(result.sources.map(s => pageOfSource(s.title))));
+    const retrieved = new Set(retrievedPages.map(normalizePage));
+
+    const expected = testCase.expectedPages || [];
+    const expectedPagesFound = expected.filter(page => retrieved.has(normalizePage(page)));
+
+    const answer = (result.answer || "").toLowerCase();
+    const keywords = testCase.requiredKeywords || [];
+    const keywordsFound = keywords.filter(k => answer.includes(k.toLowerCase()));
+
+    return {
+        id: testCase.id,
+        question: testCase.question,
+        scope: testCase.scope,
+        retrievedPages,
+        expectedPagesFound,
+        expectedPagesMissing: expected.filter(page => !expectedPagesFound.includes(page)),
+        hit: expected.length ? expectedPagesFound.length > 0 : null,
+        keywordsFound,
+        keywordsMissing: keywords.filter(k => !keywordsFound.includes(k)),
+        keywordCoverage: ratio(keywordsFound.length, keywords.length),
+        couldNotFind: !!result.empty || !answer.trim() || NOT_FOUND_PATTERN.test(answer),
+        fallback: !!result.fallback
+    };
+}
+
+function failedCase(testCase: EvalCase, error: unknown): EvalCaseResult {
+    const expected = testCase.expectedPages || [];
+    const keywords = testCase.requiredKeywords || [];
+    return {
+        id: testCase.id,
+        question: testCase.question,
+        scope: testCase.scope,
+        retrievedPages: [],
+        expectedPagesFound: [],
+        expectedPagesMissing: expected,
+        hit: expected.length ? false : null,
+        keywordsFound: [],
+        keywordsMissing: keywords,
+        keywordCoverage: keywords.length ? 0 : null,
+        couldNotFind: true,
+        fallback: false,
+        error: (error as Error)?.message || String(error)
+    };
+}
+
+export function summarizeEvalResults(results: EvalCaseResult[]): EvalSummary {
+    const withPages = results.filter(r => r.hit !== null);
+    const expectedTotal = withPages.reduce((sum, r) => sum + r.expectedPagesFound.length + r.expectedPagesMissing.length, 0);
+    const foundTotal = withPages.reduce((sum, r) => sum + r.expectedPagesFound.length, 0);
+    const withKeywords = results.filter(r => r.keywordCoverage !== null);
+
+    return {
+        cases: results.length,
+        retrievalHitRate: ratio(withPages.filter(r => r.hit).length, withPages.length),
+        pageRecall: ratio(foundTotal, expectedTotal),
+        keywordCoverage: withKeywords.length
+            ? ratio(withKeywords.reduce((sum, r) => sum + (r.keywordCoverage || 0), 0), withKeywords.length)
+            : null,
+        couldNotFindRate: ratio(results.filter(r => r.couldNotFind).length, results.length) ?? 0,
+        fallbackRate: ratio(results.filter(r => r.fallback).length, results.length) ?? 0,
+        errors: results.filter(r => r.error).length
+    };
+}
+
+/**
+ * Every case through the full pipeline (query rewrite, retrieval, answer), one at a time, cache bypassed
+ */
+export async function runEvaluation(
+    suite: EvalSuite,
+    search: EvalSearch,
+    meta: { provider: string; casesFile: string },
+    onCase?: (result: EvalCaseResult, index: number) => void
+): Promise<EvalReport> {
+    const started = Date.now();
+    const results: EvalCaseResult[] = [];
+
+    for (const [index, testCase] of suite.cases.entries()) {
+        let result: EvalCaseResult;
+        try {
+            const answer = await search(testCase.question, "", { scope: testCase.scope, bypassCache: true });
+            result = scoreEvalCase(testCase, answer);
+        } catch (err) {
+            result = failedCase(testCase, err);
+        }
+        results.push(result);
+        onCase?.(result, index);
+    }
+
+    results.sort((a, b) => a.id.localeCompare(b.id));
+    return {
+        generatedAt: new Date().toISOString(),
+        provider: meta.provider,
+        casesFile: meta.casesFile,
+        durationMs: Date.now() - started,
+        summary: summarizeEvalResults(results),
+        cases: results
+    };
+}
+
+// ================= REGRESSIONS =================
+
+/**
+ * Scores that got worse than the baseline by more than `tolerance`, plus cases that used to hit and no longer do
+ */
+export function compareEvalReports(current: EvalReport, baseline: EvalReport, tolerance = 0): EvalRegression[] {
+    const regressions: EvalRegression[] = [];
+    const higherIsBetter = ["retrievalHitRate", "pageRecall", "keywordCoverage"] as const;
+
+    for (const metric of higherIsBetter) {
+        const before = baseline.summary[metric];
+        const now = current.summary[metric];
+        if (before !== null && now !== null && now < before - tolerance) {
+            regressions.push({ metric, baseline: before, current: now });
+        }
+    }
+    if (current.summary.couldNotFindRate > baseline.summary.couldNotFindRate + tolerance) {
+        regressions.push({ metric: "couldNotFindRate", baseline: baseline.summary.couldNotFindRate, current: current.summary.couldNotFindRate });
+    }
+
+    const before = new Map(baseline.cases.map(c => [c.id, c]));
+    for (const result of current.cases) {
+        const previous = before.get(result.id);
+        if (previous?.hit === true && result.hit === false) {
+            regressions.push({ metric: "hit", caseId: result.id, baseline: true, current: false });
+        }
+    }
+    return regressions;
+}
+
+/**
+ * Scores outside the suite's absolute thresholds
+ */
+export function checkEvalThresholds(summary: EvalSummary, thresholds: EvalThresholds = {}): EvalRegression[] {
+    const failures: EvalRegression[] = [];
+    for (const metric of ["retrievalHitRate", "keywordCoverage"] as const) {
+        const minimum = thresholds[metric];
+        const value = summary[metric];
+        if (minimum !== undefined && value !== null && value < minimum) {
+            failures.push({ metric, baseline: minimum, current: value });
+        }
+    }
+    if (thresholds.couldNotFindRate !== undefined && summary.couldNotFindRate > thresholds.couldNotFindRate) {
+        failures.push({ metric: "couldNotFindRate", baseline: thresholds.couldNotFindRate, current: summary.couldNotFindRate });
+    }
+    return failures;
+}
@@ -0,0 +1,199 @@
+// src/feedbackStore.ts
+// Append-only JSONL store of answers shown in Slack and the 👍/👎 votes they received.
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { WikiSource } from "./citations";
+import { logger } from "./utils/logger";
+
+const FEEDBACK_DIR = path.join(process.cwd(), "config", "feedback");
+const ANSWERS_FILE = path.join(FEEDBACK_DIR, "answers.jsonl");
+const VOTES_FILE = path.join(FEEDBACK_DIR, "votes.jsonl");
+
+export type Vote = "up" | "down";
+
+export interface AnswerRecord {
+    id: string;
+    question: string;
+    rewrittenQuery?: string;
+    answer: string;
+    sources: WikiSource[];
+    user?: string;
+    channel?: string;
+    scope?: string;
+    timestamp: string;
+}
+
+export interface VoteRecord extends Omit<AnswerRecord, "id" | "timestamp"> {
+    id: string;
+    answerId: string;
+    vote: Vote;
+    voter: string;
+    comment?: string;
+    timestamp: string;
+}
+
+let answers: Map<string, AnswerRecord> | null = null;
+let votes: Map<string, VoteRecord> | null = null;
+
+// ================= PERSISTENCE =================
+
+function readJsonLines<T>(file: string): T[] {
+    if (!fs.existsSync(file)) return [];
+
+    return fs.readFileSync(file, "utf8")
+        .split("\n")
+        .filter(line => line.trim().length > 0)
+        .flatMap(line => {
+            try {
+                return [JSON.parse(line) as T];
+            } catch {
+                logger.warn(`⚠️ Skipping corrupt feedback line in ${path.basename(file)}`);
+                return [];
+            }
+        });
+}
+
+function appendJsonLine(file: string, record: unknown) {
+    if (!fs.existsSync(FEEDBACK_DIR)) {
+        fs.mkdirSync(FEEDBACK_DIR, { recursive: true });
+    }
+    fs.appendFileSync(file, JSON.stringify(record) + "\n", "utf8");
+}
+
+function loadAnswers(): Map<string, AnswerRecord> {
+    if (!answers) {
+        answers = new Map(readJsonLines<AnswerRecord>(ANSWERS_FILE).map(a => [a.id, a]));
+    }
+    return answers;
+}
+
+/**
+ * Later lines win: a vote re-appended with a comment replaces the earlier version
+ */
+function loadVotes(): Map<string, VoteRecord> {
+    if (!votes) {
+        votes = new Map(readJsonLines<VoteRecord>(VOTES_FILE).map(v => [v.id, v]));
+    }
+    return votes;
+}
+
+// ================= API =================
+
+export function normalizeQuestion(question: string): string {
+    return question
+        .toLowerCase()
+        .replace(/<@[a-z0-9]+>/g, "")
+        .replace(/[^\p{L}\p{N}\s]/gu, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+export function recordAnswer(record: Omit<AnswerRecord, "id" | "timestamp">): AnswerRecord {
+    const full: AnswerRecord = {
+        ...record,
+        id: crypto.randomUUID(),
+        timestamp: new Date().toISOString()
+    };
+
+    loadAnswers().set(full.id, full);
+    appendJsonLine(ANSWERS_FILE, full);
+    return full;
+}
+
+/**
+ * One vote per user per answer; voting again replaces the earlier vote
+ */
+export function recordVote(answerId: string, vote: Vote, voter: string): VoteRecord {
+    const answer = loadAnswers().get(answerId);
+    if (!answer) {
+        throw new Error(`Unknown answer: ${answerId}`);
+    }
+
+    const { id: _id, timestamp: _answeredAt, ...answerFields } = answer;
+    const record: VoteRecord = {
+        ...answerFields,
+        id: `${answerId}:${voter}`,
+        answerId,
+        vote,
+        voter,
+        timestamp: new Date().toISOString()
+    };
+
+    loadVotes().set(record.id, record);
+    appendJsonLine(VOTES_FILE, record);
+    return record;
+}
+
+export function addVoteComment(voteId: string, comment: string): VoteRecord {
+    const existing = loadVotes().get(voteId);
+    if (!existing) {
+        throw new Error(`Unknown vote: ${voteId}`);
+    }
+
+    const record: VoteRecord = { ...existing, comment: comment.trim() };
+    loadVotes().set(record.id, record);
+    appendJsonLine(VOTES_FILE, record);
+    return record;
+}
+
+// ================= REPORT =================
+
+export interface QuestionReport {
+    question: string;
+    up: number;
+    down: number;
+    lastAnswer: string;
+    comments: string[];
+    pages: string[];
+}
+
+export interface PageReport {
+    title: string;
+    remoteUrl: string;
+    up: number;
+    down: number;
+}
+
+/**
+ * Worst-rated questions (most 👎, then lowest 👍) and the wiki pages cited in those answers
+ */
+export function buildFeedbackReport(limit = 20) {
+    const questions = new Map<string, QuestionReport>();
+    const pages = new Map<string, PageReport>();
+    const allVotes = Array.from(loadVotes().values())
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    for (const v of allVotes) {
+        const key = normalizeQuestion(v.question);
+        const q = questions.get(key) || {
+            question: v.question, up: 0, down: 0, lastAnswer: "", comments: [], pages: []
+        };
+
+        q[v.vote]++;
+        q.lastAnswer = v.answer;
+        if (v.comment) q.comments.push(v.comment);
+
+        for (const source of v.sources || []) {
+            if (!q.pages.includes(source.title)) q.pages.push(source.title);
+
+            const page = pages.get(source.title) || {
+                title: source.title, remoteUrl: source.remoteUrl, up: 0, down: 0
+            };
+            page[v.vote]++;
+            pages.set(source.title, page);
+        }
+
+        questions.set(key, q);
+    }
+
+    const worst = <T extends { up: number; down: number }>(a: T, b: T) =>
+        (b.down - b.up) - (a.down - a.up) || b.down - a.down;
+
+    return {
+        totalVotes: allVotes.length,
+        downVotes: allVotes.filter(v => v.vote === "down").length,
+        questions: Array.from(questions.values()).filter(q => q.down > 0).sort(worst).slice(0, limit),
+        pages: Array.from(pages.values()).filter(p => p.down > 0).sort(worst).slice(0, limit)
+    };
+}
@@ -2,55 +2,38 @@
 
 import fs from "fs";
 import path from "path";
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import {rewriteUserQuestionForFileSearch} from "./rewriteQueryForFileSearch";
+import { getRagProvider, RagMetadata, ConversationTurn } from "./providers";
+import { JobContext } from "./jobManager";
+import { rewriteUserQuestionWithDetails } from "./rewriteQueryForFileSearch";
 import crypto from "crypto";
 import { generateSynonyms } from "./optimizeExtractSynonyms";
+import { RagManifest, loadManifest, saveManifest, deleteManifest, hashContent, entryDocumentNames } from "./ragManifest";
+import { chunkMarkdown, MarkdownChunk } from "./markdownChunker";
+import { searchLocalIndex, formatLocalSearchAnswer, LocalSearchResult } from "./localSearch";
+import { buildSources, sourcesFromLocalResults, WikiSource } from "./citations";
+import { loadActiveStoreState, buildVersionedDisplayName, promoteStore, rollbackStore } from "./activeStore";
+import { DEFAULT_WIKI_KEY, WikiConfig, findWikiByScope, loadWikiConfigs } from "./wikiConfig";
+import { wikiImageFileName } from "./wikiService";
+import { logger } from "./utils/logger";
+import { queryDuration, queriesTotal, syncDuration, uploadFailures, imagesAnalysed, answerCacheLookups } from "./metrics";
+import { getCachedAnswer, setCachedAnswer, clearAnswerCache, AnswerCacheKey } from "./answerCache";
+import { mimeTypeForFile } from "./imageAnalysis";
+import { getSynonyms } from "./synonymStore";
+import { SearchTrace, createSearchTrace, traceStep, addTokenUsage, withChunkMetadata } from "./searchTrace";
 
 // ================= CONFIG =================
 
 const DATASET_NAME = process.env.DATASET_NAME || "IT_Wiki";
 const FILES_DIR = path.join(process.cwd(), "config", "wiki-files");
 const IMAGES_DIR = path.join(process.cwd(), "config", "wiki-images");
-const IMAGE_HASH_FILE = path.join(process.cwd(), "config", "image-hash-cache.json");
-const SYNONYMS_FILE = path.join(process.cwd(), "config","synonyms.json");
-interface SynonymConfig {
-  term: string;
-  synonyms: string[];
-}
 interface FileSearchPart {
   fileSearchResults?: unknown;
 }
 
-// Load once at startup
-const synonymConfigs: SynonymConfig[] = fs.existsSync(SYNONYMS_FILE)
-  ? JSON.parse(fs.readFileSync(SYNONYMS_FILE, "utf8"))
-  : [];
-
 
-let ai: GoogleGenAI;
 let syncRunning = false; // prevents parallel execution
 
 // ================= UTILITIES =================
-function getImageHash(filePath: string): string {
-    const buffer = fs.readFileSync(filePath);
-    return crypto.createHash("md5").update(buffer).digest("hex");
-}
-
-function loadHashCache(): Record<string, string> {
-    if (!fs.existsSync(IMAGE_HASH_FILE)) return {};
-    return JSON.parse(fs.readFileSync(IMAGE_HASH_FILE, "utf8"));
-}
-
-function saveHashCache(cache: Record<string, string>) {
-    fs.writeFileSync(IMAGE_HASH_FILE, JSON.stringify(cache, null, 2), "utf8");
-}
-function clearImageHashCache() {
-    if (fs.existsSync(IMAGE_HASH_FILE)) {
-        fs.unlinkSync(IMAGE_HASH_FILE);
-        console.log("🧹 Image hash cache cleared");
-    }
-}
 function generateGuid(): string {
     return crypto.randomUUID(); // Node 16+
 }
@@ -58,7 +41,7 @@ function getSynonymsForContent(content: string): string[] {
   const lower = content.toLowerCase();
   const found = new Set<string>();
 
-  for (const entry of synonymConfigs) {
+  for (const entry of getSynonyms()) {
     const termLower = entry.term.toLowerCase();
 
     const termInText = lower.includes(termLower);
@@ -113,47 +96,107 @@ function chunkSynonyms(
 
   return chunks;
 }
-// ================= INIT =================
+// ================= STORE HELPERS =================
 
-export function initializeGemini() {
-    if (!ai) {
-        ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    }
+export async function findRagStoreByDisplayName(displayName: string) {
+    const stores = await getRagProvider().listStores();
+    return stores.find(store => store.displayName === displayName) || null;
 }
 
-// ================= STORE HELPERS =================
+/**
+ * Store that queries should hit: the on-disk pointer first,
+ * then a legacy store named exactly DATASET_NAME (pre blue/green deployments).
+ */
+export async function resolveActiveStoreName(): Promise<string | null> {
+    const { active } = loadActiveStoreState();
+    if (active?.name) return active.name;
 
-export async function findRagStoreByDisplayName(displayName: string) {
-    const storesPager = await ai.fileSearchStores.list();
-    for await (const store of storesPager) {
-        if (store.displayName === displayName) return store;
-    }
-    return null;
+    const legacyStore = await findRagStoreByDisplayName(DATASET_NAME);
+    return legacyStore?.name || null;
 }
 
 export async function getOrCreateRagStore(): Promise<string> {
-    const existingStore = await findRagStoreByDisplayName(DATASET_NAME);
-    if (existingStore?.name) return existingStore.name;
+    const activeStore = await resolveActiveStoreName();
+    if (activeStore) return activeStore;
 
-    const newStore = await ai.fileSearchStores.create({
-        config: { displayName: DATASET_NAME }
-    });
+    const displayName = buildVersionedDisplayName(DATASET_NAME);
+    const storeName = await createRagStore(displayName);
+    promoteStore(storeName, displayName);
+    return storeName;
+}
 
-    if (!newStore.name) throw new Error("Failed to create RAG store");
-    return newStore.name;
+async function createRagStore(displayName: string): Promise<string> {
+    const storeName = await getRagProvider().createStore(displayName);
+    logger.info(`✅ New RAG store created: ${storeName} (${displayName})`);
+    return storeName;
+}
+
+async function deleteRagStore(storeName: string) {
+    try {
+        await getRagProvider().deleteStore(storeName);
+        deleteManifest(storeName);
+        logger.info(`🗑 Deleted RAG store: ${storeName}`);
+    } catch (err: any) {
+        logger.warn(`⚠ Could not delete RAG store ${storeName}:`, err?.message || err);
+    }
+}
+
+/**
+ * A candidate store is only promoted when the provider reports every uploaded document
+ * as present and none failed processing.
+ */
+async function validateRagStore(storeName: string, expectedDocuments: number) {
+    const store = await getRagProvider().getStore(storeName);
+
+    const active = store.activeDocumentsCount;
+    const pending = store.pendingDocumentsCount;
+    const failed = store.failedDocumentsCount;
+
+    logger.info(`🔎 Validating ${storeName}: active=${active} pending=${pending} failed=${failed} expected=${expectedDocuments}`);
+
+    if (expectedDocuments === 0) {
+        throw new Error("Validation failed: no documents were uploaded");
+    }
+    if (failed > 0) {
+        throw new Error(`Validation failed: ${failed} documents failed processing`);
+    }
+    if (active + pending < expectedDocuments) {
+        throw new Error(`Validation failed: expected ${expectedDocuments} documents, store has ${active + pending}`);
+    }
+}
+
+export function getActiveStoreStatus() {
+    return loadActiveStoreState();
+}
+
+/**
+ * Point queries back at the previous store (calling it again rolls forward)
+ */
+export function rollbackActiveStore() {
+    const state = rollbackStore();
+    logger.info(`⏪ Active RAG store rolled back to ${state.active?.displayName} (${state.active?.name})`);
+    return state;
 }
 
 // ================= IMAGE → PAGE MAPPING =================
 
-function buildImagePageMap(): Record<string, string> {
-    const map: Record<string, string> = {};
+interface ImageSource {
+    page: string;
+    wiki: string;
+}
+
+function buildImagePageMap(): Record<string, ImageSource> {
+    const map: Record<string, ImageSource> = {};
     if (!fs.existsSync(FILES_DIR)) return map;
 
     const textFiles = fs.readdirSync(FILES_DIR).filter(f => f.endsWith(".json"));
+    const wikis = loadWikiConfigs();
 
     for (const file of textFiles) {
         const json = JSON.parse(fs.readFileSync(path.join(FILES_DIR, file), "utf8"));
         const pagePath = json.title || json.path || json.source || file;
+        const wiki = json.wiki || DEFAULT_WIKI_KEY;
+        const wikiConfig = wikis.find(w => w.key === wiki) || { key: wiki };
         const content = json.content || "";
 
 
@@ -161,43 +204,38 @@ function buildImagePageMap(): Record<string, string> {
         let match: RegExpExecArray | null;
 
         while ((match = regex.exec(content)) !== null) {
-            const imageName = path.basename(match[1]);
-            if (imageName) map[imageName] = pagePath;
+            if (!path.basename(match[1])) continue;
+            map[wikiImageFileName(match[1], wikiConfig)] = { page: pagePath, wiki };
         }
     }
     return map;
 }
 
+// Exported images relative to IMAGES_DIR: bare names (env-configured wiki) and "<wiki key>/<name>"
+function listWikiImages(): string[] {
+    if (!fs.existsSync(IMAGES_DIR)) return [];
+    return fs.readdirSync(IMAGES_DIR, { withFileTypes: true })
+        .flatMap(entry => entry.isDirectory()
+            ? fs.readdirSync(path.join(IMAGES_DIR, entry.name)).map(f => `${entry.name}/${f}`)
+            : [entry.name])
+        .filter(f => /\.(png|jpg|jpeg|gif)$/i.test(f));
+}
+
 // ================= IMAGE ANALYSIS =================
 export async function analyzeImageWithGemini(imagePath: string): Promise<string> {
-    initializeGemini();
-
     const buffer = fs.readFileSync(imagePath);
-    const base64 = buffer.toString("base64");
-    const ext = path.extname(imagePath).toLowerCase();
-
-    // Auto-detect MIME type
-    const mimeMap: Record<string, string> = {
-        ".png": "image/png",
-        ".jpg": "image/jpeg",
-        ".jpeg": "image/jpeg",
-        ".gif": "image/gif",
-        ".bmp": "image/bmp",
-        ".webp": "image/webp",
-        ".tif": "image/tiff",
-        ".tiff": "image/tiff"
-    };
-
-    const mimeType = mimeMap[ext] || "image/png";
+    return analyzeImageBuffer(buffer, mimeTypeForFile(imagePath) || "image/png");
+}
 
+/**
+ * Summary + OCR of an image held in memory (uploads never touch the disk)
+ */
+export async function analyzeImageBuffer(buffer: Buffer, mimeType: string): Promise<string> {
     try {
-        const response = await ai.models.generateContent({
-            model: process.env.GEMINI_MODEL_TEXT_IMAGE_GENERATION || "gemini-2.5-flash-lite",
-            contents: [{
-                role: "user",
-                parts: [
-                    {
-                        text: `
+        const response = await getRagProvider().analyzeImage({
+            data: buffer,
+            mimeType,
+            prompt: `
                             You are in OCR+Summary mode.
 
                             Extract **two things** from this image:
@@ -212,10 +250,6 @@ export async function analyzeImageWithGemini(imagePath: string): Promise<string>
                             "ocr": "..."
                             }
                             `
-                    },
-                    { inlineData: { mimeType, data: base64 } }
-                ]
-            }]
         });
 
         const output = response.text || "";
@@ -223,9 +257,11 @@ export async function analyzeImageWithGemini(imagePath: string): Promise<string>
         // Validate that output is JSON
         try {
             JSON.parse(output);
+            imagesAnalysed.inc({ result: "ok" });
             return output;   // return as JSON string
         } catch {
             // Fallback: wrap raw text into JSON if model hallucinated slightly
+            imagesAnalysed.inc({ result: "unparsed" });
             return JSON.stringify({
                 summary: "Parsing failed; raw output returned.",
                 ocr: output
@@ -233,8 +269,8 @@ export async function analyzeImageWithGemini(imagePath: string): Promise<string>
         }
 
     } catch (err: any) {
-        console.log(err);
-        console.error("Gemini OCR error:", err.message || err);
+        logger.error("Gemini OCR error", err);
+        imagesAnalysed.inc({ result: "error" });
         return JSON.stringify({
             summary: "",
             ocr: "",
@@ -249,89 +285,165 @@ async function uploadTextToRag(
     storeName: string,
     content: string,
     filename: string,
-    metadata: any[]
-) {
+    metadata: RagMetadata[]
+): Promise<string> {
     const buffer = Buffer.from(content, "utf8");
 
-    const uniqueId = crypto.randomUUID();
     const safeFilename = `${filename}`;
 
-    console.log(`⬆ Uploading to RAG:
-                File: ${safeFilename}
-                Size: ${buffer.length} bytes
-                Metadata: ${JSON.stringify(metadata)}
-                Store: ${storeName}`);
+    logger.debug(`⬆ Uploading to RAG: ${safeFilename}`, {
+        bytes: buffer.length,
+        store: storeName,
+        metadata: metadata.map(m => m.key)
+    });
 
     try {
-        const response = await ai.fileSearchStores.uploadToFileSearchStore({
-            fileSearchStoreName: storeName,
-            file: new File([buffer], safeFilename, { type: "text/plain" }),
-            config: {
-                displayName: safeFilename,
-                mimeType: "text/plain",
-                customMetadata: metadata
-            }
-        });
-
-        console.log("✅ Upload successful:", {
+        const documentName = await getRagProvider().uploadDocument(storeName, {
+            content,
             displayName: safeFilename,
-            store: storeName,
-            response
+            metadata
         });
 
-        return response;
+        logger.info(`✅ Uploaded to RAG: ${safeFilename}`, { bytes: buffer.length, documentName });
+
+        return documentName;
 
     } catch (error: any) {
-        console.error("❌ Upload FAILED for:", safeFilename);
+        // Status and message only; the provider response would dump the whole request
+        logger.error(`❌ Upload FAILED for: ${safeFilename}`, { store: storeName, error });
+        uploadFailures.inc({ type: metadata.find(m => m.key === "type")?.stringValue || "unknown" });
 
-        if (error?.response) {
-            console.error("🔴 Gemini API Response:");
-            console.error(JSON.stringify(error.response, null, 2));
-        }
+        throw error; // rethrow so sync can handle it if needed
+    }
+}
 
-        if (error?.message) {
-            console.error("🔴 Error message:", error.message);
-        }
+/**
+ * Delete a single document (and its chunks) from the store.
+ * A document that is already gone is not an error for sync purposes.
+ */
+async function deleteRagDocument(documentName: string) {
+    try {
+        await getRagProvider().deleteDocument(documentName);
+        logger.info(`🗑 Deleted RAG document: ${documentName}`);
+    } catch (err: any) {
+        logger.warn(`⚠ Could not delete RAG document ${documentName}:`, err?.message || err);
+    }
+}
 
-        if (error?.stack) {
-            console.error("🔴 Stack trace:");
-            console.error(error.stack);
-        }
+// ================= PAGE CHUNKS =================
 
-        throw error; // rethrow so sync can handle it if needed
+const MAX_SYNONYM_GROUPS = 12; // 7 chunk keys + 12 synonym groups stay under the 20 metadata entries per document
+
+/**
+ * Document display name of a section chunk: "<export file>#<anchor>" (citations deep-link with it)
+ */
+export function chunkDisplayName(file: string, chunk: MarkdownChunk): string {
+    return chunk.anchor ? `${file}#${chunk.anchor}` : file;
+}
+
+/**
+ * Manifest hash of a page: its export file plus the synonyms its documents are tagged with,
+ * so a synonym change (regenerated or curated) re-uploads the pages it affects on a delta sync.
+ * Pages no synonym applies to keep the plain file hash.
+ */
+function pageSyncHash(raw: string, json: any): string {
+    const synonyms = getSynonymsForContent(`${json.title}\n${json.source}\n${json.content || ""}`).sort();
+    return hashContent(synonyms.length > 0 ? `${raw}\n${synonyms.join(",")}` : raw);
+}
+
+/**
+ * Upload a page as one document per heading section. If any section fails, the sections
+ * already uploaded are removed again so the page is never half-updated.
+ */
+async function uploadWikiPageChunks(storeName: string, file: string, json: any): Promise<string[]> {
+    const chunks = chunkMarkdown(json.content || "");
+    if (chunks.length === 0) {
+        chunks.push({ index: 0, anchor: "", heading: "", breadcrumb: [], text: "" });
+    }
+
+    const uploaded: string[] = [];
+    try {
+        for (const chunk of chunks) {
+            const breadcrumb = [json.title, ...chunk.breadcrumb].join(" > ");
+            const source = chunk.anchor ? `${json.source}#${chunk.anchor}` : json.source;
+            const content = `TITLE: ${json.title} \nSOURCE: ${source} \nSECTION: ${breadcrumb} \n\n${chunk.text} `;
+            const synonyms = getSynonymsForContent(content);
+
+            const metadata: RagMetadata[] = [
+                { key: "type", stringValue: "wiki-text" },
+                { key: "wiki", stringValue: json.wiki || DEFAULT_WIKI_KEY },
+                { key: "wiki_title", stringValue: json.title },
+                { key: "wiki_file", stringValue: file },
+                { key: "section", stringValue: chunk.anchor || "top" },
+                { key: "section_title", stringValue: breadcrumb.substring(0, 255) },
+                { key: "chunk_index", stringValue: String(chunk.index) }
+            ];
+
+            if (synonyms.length > 0) {
+                const synonymChunks = chunkSynonyms(synonyms).slice(0, MAX_SYNONYM_GROUPS); // enforce max allowed
+                synonymChunks.forEach((group, index) => {
+                    metadata.push({
+                        key: index === 0 ? "synonyms" : `synonyms_${index + 1}`,
+                        stringValue: group
+                    });
+                });
+            }
+
+            uploaded.push(await uploadTextToRag(storeName, content, chunkDisplayName(file, chunk), metadata));
+        }
+    } catch (err) {
+        for (const name of uploaded) {
+            await deleteRagDocument(name);
+        }
+        throw err;
     }
+
+    logger.info(`🧩 ${file}: ${uploaded.length} section chunk(s)`);
+    return uploaded;
 }
 
 // ================= IMAGE PROCESSOR =================
-export async function processImagesToRag(storeName: string) {
+export async function processImagesToRag(
+    storeName: string,
+    manifest: RagManifest = loadManifest(storeName),
+    job?: JobContext,
+    only?: string[]
+) {
     const imagePageMap = buildImagePageMap();
-    const images = fs.readdirSync(IMAGES_DIR).filter(f => /\.(png|jpg|jpeg|gif)$/i.test(f));
+    const scope = only ? new Set(only) : null;
+    const images = listWikiImages().filter(f => !scope || scope.has(f));
 
     let uploadedImages = 0;
-    const hashCache = loadHashCache();
+    let unchangedImages = 0;
+    let deletedImages = 0;
     const processedInThisRun = new Set<string>();
 
     for (const image of images) {
+        job?.throwIfCancelled();
 
         if (processedInThisRun.has(image)) {
-            console.warn(`⚠ Runtime duplicate skipped: ${image}`);
+            logger.warn(`⚠ Runtime duplicate skipped: ${image}`);
             continue;
         }
         processedInThisRun.add(image);
 
         const imgPath = path.join(IMAGES_DIR, image);
-        const hash = getImageHash(imgPath);
+        const hash = hashContent(fs.readFileSync(imgPath));
+        const existing = manifest.entries[image];
 
-        if (hashCache[image] === hash) {
-            console.log(`⏭ Skipped duplicate image (hash match): ${image}`);
+        // Images uploaded before documents carried a wiki tag are analysed and uploaded again
+        if (existing?.hash === hash && existing.wiki) {
+            logger.info(`⏭ Skipped unchanged image (hash match): ${image}`);
+            unchangedImages++;
             continue;
         }
 
-        console.log(`🖼 Analysing image: ${image}`);
+        logger.info(`🖼 Analysing image: ${image}`);
 
         try {
             const description = await analyzeImageWithGemini(imgPath);
-            const sourcePage = imagePageMap[image] || "Unknown";
+            const sourcePage = imagePageMap[image]?.page || "Unknown";
+            const sourceWiki = imagePageMap[image]?.wiki || DEFAULT_WIKI_KEY;
 
             const content =
                 `SOURCE PAGE: ${sourcePage}\n` +
@@ -340,152 +452,384 @@ export async function processImagesToRag(storeName: string) {
 
             const outputName = image.replace(/\.(png|jpg|jpeg|gif)$/i, ".txt");
             const guid = generateGuid();
-            await uploadTextToRag(storeName, content, outputName, [
+            const documentName = await uploadTextToRag(storeName, content, outputName, [
                 { key: "type", stringValue: "wiki-image" },
+                { key: "wiki", stringValue: sourceWiki },
                 { key: "source_page", stringValue: sourcePage },
                 { key: "image_name", stringValue: image + "-" + guid },
                 { key: "image_guid", stringValue: guid } // ✅ unique lightweight identifier
             ]);
 
-            hashCache[image] = hash;
-            saveHashCache(hashCache);
+            // Replace the previous version only once the new one is in the store
+            if (existing) {
+                await deleteRagDocument(existing.documentName);
+            }
+
+            manifest.entries[image] = {
+                type: "wiki-image",
+                hash,
+                documentName,
+                sourcePath: sourcePage,
+                wiki: sourceWiki,
+                uploadedAt: new Date().toISOString()
+            };
+            saveManifest(manifest);
             uploadedImages++;
+            job?.increment("imagesAnalysed");
 
         } catch (err: any) {
-            console.error(`💥 Failed to process image ${image}:`, err?.message || err);
+            logger.error(`💥 Failed to process image ${image}:`, err?.message || err);
+            job?.addError(image, err);
         }
     }
 
-    return { uploadedImages, store: storeName };
-}
-
-// ================= MASTER SYNC =================
-async function SetUpFileSearchStore() {
-    // ================= DELETE OLD STORE =================
+    // ================= REMOVE DELETED IMAGES =================
+    for (const [image, entry] of Object.entries(manifest.entries)) {
+        if (entry.type !== "wiki-image" || processedInThisRun.has(image)) continue;
+        if (scope && !scope.has(image)) continue;
 
-    const existingStore = await findRagStoreByDisplayName(DATASET_NAME);
-
-    if (existingStore?.name) {
-        console.log(`🗑 Deleting existing RAG store: ${DATASET_NAME}`);
-        await ai.fileSearchStores.delete({
-            name: existingStore.name,
-            config: { force: true }
-        });
+        await deleteRagDocument(entry.documentName);
+        delete manifest.entries[image];
+        saveManifest(manifest);
+        deletedImages++;
     }
 
-    // ================= CREATE NEW STORE =================
-
-    const newStore = await ai.fileSearchStores.create({
-        config: { displayName: DATASET_NAME }
-    });
+    return { uploadedImages, unchangedImages, deletedImages, store: storeName };
+}
 
-    if (!newStore.name) {
-        throw new Error("Failed to create new RAG store");
-    }
-    console.log(`✅ New RAG store created: ${newStore.name}`);
-    return newStore.name;
+// ================= MASTER SYNC =================
+export interface SyncOptions {
+    full?: boolean;         // build a fresh store and re-upload everything
+    skipSynonyms?: boolean; // synonyms were already regenerated by the caller
+    job?: JobContext;       // progress reporting + cancellation when run as a background job
+    only?: {                // partial sync: just these export files / image names (e.g. from a wiki push)
+        files: string[];
+        images: string[];
+    };
 }
-export async function syncWikiToGeminiRag() {
+
+/**
+ * Delta sync: only new or changed wiki files are uploaded, documents for
+ * removed files are deleted and unchanged documents are left alone.
+ * A per-store manifest in config/rag-manifests records what is in the store.
+ *
+ * Full rebuilds (or the first sync) are blue/green: a versioned store is filled,
+ * validated and only then promoted; the previous store is kept for rollback.
+ *
+ * With `only`, just the listed files/images are compared against the manifest;
+ * listed files that no longer exist are removed from the store.
+ */
+export async function syncWikiToGeminiRag(options: SyncOptions = {}) {
     if (syncRunning) {
-        console.warn("⚠ Sync already running. Skipping duplicate call.");
-        return;
+        throw new Error("Sync already running");
     }
 
     syncRunning = true;
-    initializeGemini();
+    const job = options.job;
+    const stopTimer = syncDuration.startTimer({ mode: options.only ? "partial" : options.full ? "full" : "incremental" });
+
+    logger.info(`🚀 Starting ${options.full ? "full" : "incremental"} Wiki → Gemini RAG sync (text + images)...`);
 
-    console.log("🚀 Starting full Wiki → Gemini RAG sync (text + images)...");
+    let candidateStore: string | null = null; // fresh store being built, not yet live
 
     try {
         // ================= VALIDATION FIRST =================
+        job?.setPhase("validating");
 
         if (!fs.existsSync(FILES_DIR)) {
             throw new Error(`Wiki export folder not found: ${FILES_DIR}`);
         }
 
-        const textFiles = fs.readdirSync(FILES_DIR).filter(f => f.endsWith(".json"));
+        const exportedFiles = fs.readdirSync(FILES_DIR).filter(f => f.endsWith(".json"));
 
-        if (textFiles.length === 0) {
+        if (exportedFiles.length === 0) {
             throw new Error(
                 "No wiki text files found. Aborting Gemini sync to protect store."
             );
         }
 
-        // ✅ Only after validation we touch the store
-        console.log("🧹 Clearing image hash cache...");
-        clearImageHashCache();
+        const scope = options.only ? new Set(options.only.files) : null;
+        const textFiles = scope ? exportedFiles.filter(f => scope.has(f)) : exportedFiles;
+        job?.update({ pagesTotal: textFiles.length });
 
         // ================= SETUP STORE =================
-        const storeName = await SetUpFileSearchStore();
+        const { active } = loadActiveStoreState();
+        const rebuild = options.full || !active;
 
-        await generateSynonyms(); // refresh synonyms before upload
+        if (rebuild && scope) {
+            throw new Error("No active RAG store yet; run a full sync before partial updates");
+        }
+
+        let storeName: string;
+        let displayName: string;
+        if (rebuild) {
+            displayName = buildVersionedDisplayName(DATASET_NAME);
+            storeName = await createRagStore(displayName);
+            candidateStore = storeName;
+        } else {
+            storeName = active!.name;
+            displayName = active!.displayName;
+        }
+        const manifest = loadManifest(storeName);
+
+        if (!options.skipSynonyms) {
+            job?.setPhase("synonyms");
+            await generateSynonyms(); // refresh synonyms before upload
+            job?.throwIfCancelled();
+        }
 
         // ================= UPLOAD TEXT FILES =================
+        job?.setPhase("uploading-pages");
         let textFilesUploaded = 0;
+        let textFilesUnchanged = 0;
+        const failedFiles: string[] = [];
         for (const file of textFiles) {
-            const json = JSON.parse(fs.readFileSync(path.join(FILES_DIR, file), "utf8"));
-            const content = `TITLE: ${json.title} \nSOURCE: ${json.source} \n\n${json.content} `;
-            const synonyms = getSynonymsForContent(content);
-
-            const metadata: { key: string; stringValue: string }[] = [
-                { key: "type", stringValue: "wiki-text" },
-                { key: "wiki_title", stringValue: json.title },
-                { key: "wiki_file", stringValue: file }
-            ];
-            
-           const MAX_SYNONYM_GROUPS = 15; // metadata limit safety
-           if (synonyms.length > 0) {
-                const synonymChunks = chunkSynonyms(synonyms).slice(0, MAX_SYNONYM_GROUPS); // enforce max allowed
-                synonymChunks.forEach((chunk, index) => {
-                    metadata.push({
-                    key: index === 0 ? "synonyms" : `synonyms_${index + 1}`,
-                    stringValue: chunk
-                    });
-                });
+            job?.throwIfCancelled();
+
+            try {
+                const raw = fs.readFileSync(path.join(FILES_DIR, file), "utf8");
+                const json = JSON.parse(raw);
+                const hash = pageSyncHash(raw, json);
+                const existing = manifest.entries[file];
+
+                // Pages uploaded as one blob (before chunking) or without a wiki tag are re-uploaded
+                if (existing?.hash === hash && existing.documentNames && existing.wiki) {
+                    textFilesUnchanged++;
+                    continue;
+                }
+
+                const documentNames = await uploadWikiPageChunks(storeName, file, json);
+
+                // Replace the previous version only once the new one is in the store
+                if (existing) {
+                    for (const name of entryDocumentNames(existing)) {
+                        await deleteRagDocument(name);
+                    }
+                }
+
+                manifest.entries[file] = {
+                    type: "wiki-text",
+                    hash,
+                    documentName: documentNames[0],
+                    documentNames,
+                    sourcePath: json.title,
+                    wiki: json.wiki || DEFAULT_WIKI_KEY,
+                    uploadedAt: new Date().toISOString()
+                };
+                saveManifest(manifest);
+                textFilesUploaded++;
+            } catch (err: any) {
+                // Keep going: the previous version (if any) stays in the store
+                logger.error(`💥 Failed to sync wiki file ${file}:`, err?.message || err);
+                failedFiles.push(file);
+                job?.addError(file, err);
+            } finally {
+                job?.increment("pagesProcessed");
             }
+        }
+
+        // A new store missing pages must never go live
+        if (rebuild && failedFiles.length > 0) {
+            throw new Error(`${failedFiles.length} wiki files failed to upload; new store not promoted`);
+        }
 
-            await uploadTextToRag(storeName, content, file, metadata);
-            textFilesUploaded++;
+        // ================= REMOVE DELETED PAGES =================
+        job?.setPhase("removing-deleted-pages");
+        let textFilesDeleted = 0;
+        const currentFiles = new Set(textFiles);
+        for (const [file, entry] of Object.entries(manifest.entries)) {
+            if (entry.type !== "wiki-text" || currentFiles.has(file)) continue;
+            if (scope && !scope.has(file)) continue;
+
+            logger.info(`🗑 Page removed from wiki export: ${entry.sourcePath}`);
+            for (const name of entryDocumentNames(entry)) {
+                await deleteRagDocument(name);
+            }
+            delete manifest.entries[file];
+            saveManifest(manifest);
+            textFilesDeleted++;
         }
 
         // ================= UPLOAD IMAGE FILES =================
+        job?.setPhase("images");
     
-            const imagesProcessed = await processImagesToRag(storeName);       
-            console.log("✅ Sync complete. Images processed:", imagesProcessed);
-
-       
+            const imagesProcessed = await processImagesToRag(storeName, manifest, job, options.only?.images);       
+            logger.info("✅ Sync complete. Images processed:", imagesProcessed);
+
+        // ================= VALIDATE & PROMOTE =================
+        if (rebuild) {
+            job?.setPhase("validating-store");
+            job?.throwIfCancelled();
+            const expectedDocuments = Object.values(manifest.entries)
+                .reduce((sum, entry) => sum + entryDocumentNames(entry).length, 0);
+            await validateRagStore(storeName, expectedDocuments);
+
+            const retired = promoteStore(storeName, displayName);
+            candidateStore = null;
+            logger.info(`🟢 Promoted ${displayName} (${storeName}) to active store`);
+
+            if (retired && retired.name !== storeName) {
+                await deleteRagStore(retired.name);
+            }
+        }
    
+        stopTimer({ outcome: "success" });
         return {
             message: "IT_Wiki RAG store updated",
             textFilesUploaded,
+            textFilesUnchanged,
+            textFilesDeleted,
+            textFilesFailed: failedFiles.length,
             imageFilesUploaded: imagesProcessed.uploadedImages, 
-            store: storeName
+            imageFilesUnchanged: imagesProcessed.unchangedImages,
+            imageFilesDeleted: imagesProcessed.deletedImages,
+            store: storeName,
+            storeDisplayName: displayName,
+            promoted: rebuild
         };
 
     } catch (err) {
-        console.error("🔥 Gemini sync error:", err);
+        logger.error("🔥 Gemini sync error:", err);
+        stopTimer({ outcome: "error" });
+
+        // Never leave a half-built store behind; the live store was not touched
+        if (candidateStore) {
+            await deleteRagStore(candidateStore);
+        }
+        throw err;
     } finally {
         syncRunning = false;
+        // Even a failed incremental sync may have replaced documents → cached answers can be stale
+        clearAnswerCache("sync finished");
     }
 }
 // ================= SEARCH =================
-function extractText(response: any): string {
-  const parts =
-    response?.candidates?.[0]?.content?.parts ?? [];
 
-  return parts
-    .map((p: any) => p.text || "")
-    .join("\n");
+export interface SearchOptions {
+    history?: ConversationTurn[];   // earlier turns of a threaded conversation
+    scope?: string | null;          // wiki key/alias from config/wikis.json; all wikis when empty
+    bypassCache?: boolean;          // always ask the model (the fresh answer still replaces the cached one)
+    debug?: boolean;                // explain mode: bypasses the cache, result carries the pipeline trace
 }
 
-export async function searchWiki(query: string, customPrompt: string = "") {
-    initializeGemini();
-    
+export interface SearchResult {
+    answer: string;
+    sources: WikiSource[];
+    rewrittenQuery?: string;
+    fallback?: boolean;                 // answered from the local index, not the LLM
+    empty?: boolean;                    // the model returned no answer text (even after retrying)
+    cached?: boolean;                   // served from the answer cache
+    results?: LocalSearchResult[];
+    scope?: string;                     // wiki key the search was restricted to
+    debug?: SearchTrace;                // only with options.debug
+}
 
-    const store = await findRagStoreByDisplayName(DATASET_NAME);
-    if (!store?.name) throw new Error(`RAG store ${DATASET_NAME} not found`);
+/**
+ * Wiki a scoped search is restricted to; throws for scopes that are not configured
+ */
+export function resolveSearchScope(scope?: string | null): WikiConfig | null {
+    if (!scope) return null;
+    const wiki = findWikiByScope(scope);
+    if (!wiki) throw new Error(`Unknown wiki scope: ${scope}`);
+    return wiki;
+}
 
-    const rewriteQuestion = await rewriteUserQuestionForFileSearch(query);
+/**
+ * Grounded answer from the RAG provider; degrades to the local BM25 index
+ * (top pages with snippets and links) when the LLM path fails.
+ */
+export async function searchWiki(
+    query: string,
+    customPrompt: string = "",
+    options: SearchOptions = {}
+): Promise<SearchResult> {
+    const wiki = resolveSearchScope(options.scope);
+    const started = Date.now();
+    const stopTimer = queryDuration.startTimer({ step: "total" });
+    const scopeLabel = wiki?.key || "all";
+    logger.info("🔎 Wiki search", { query, scope: scopeLabel, historyTurns: options.history?.length || 0, debug: !!options.debug });
+
+    const trace = options.debug ? createSearchTrace(query, wiki?.key) : undefined;
+    const finishTrace = () => {
+        if (!trace) return undefined;
+        trace.timingsMs.total = Date.now() - started;
+        trace.tokens.total = (trace.tokens.rewrite?.totalTokens || 0) + (trace.tokens.answer?.totalTokens || 0);
+        return trace;
+    };
+
+    try {
+        const result = await searchWikiWithRag(query, customPrompt, options, wiki, trace);
+        const outcome = result.empty ? "empty" : "answered";
+        stopTimer({ outcome });
+        queriesTotal.inc({ outcome, scope: scopeLabel });
+        logger.info("🧠 Wiki search answered", { sources: result.sources.length, durationMs: Date.now() - started });
+        return trace ? { ...result, debug: finishTrace() } : result;
+    } catch (err: any) {
+        logger.error("⚠️ RAG search failed, falling back to local index:", err?.message || err);
+
+        try {
+            const results = searchLocalIndex(query, 5, wiki?.key);
+            stopTimer({ outcome: "fallback" });
+            queriesTotal.inc({ outcome: "fallback", scope: scopeLabel });
+            return {
+                answer: formatLocalSearchAnswer(results),
+                sources: sourcesFromLocalResults(results),
+                fallback: true,
+                results,
+                scope: wiki?.key,
+                ...(trace ? { debug: { ...finishTrace()!, fallback: true } } : {})
+            };
+        } catch (fallbackErr) {
+            stopTimer({ outcome: "error" });
+            queriesTotal.inc({ outcome: "error", scope: scopeLabel });
+            throw fallbackErr;
+        }
+    }
+}
+
+async function searchWikiWithRag(
+    query: string,
+    customPrompt: string,
+    options: SearchOptions,
+    wiki: WikiConfig | null,
+    trace?: SearchTrace
+): Promise<SearchResult> {
+
+    const storeName = await traceStep(trace, "store", async () => {
+        const name = await resolveActiveStoreName();
+        if (!name) throw new Error(`RAG store ${DATASET_NAME} not found`);
+        return name;
+    });
+    if (trace) trace.storeName = storeName;
+
+    const history = options.history || [];
+
+    const cacheKey: AnswerCacheKey = { question: query, customPrompt, storeName, scope: wiki?.key, history };
+    if (options.bypassCache || options.debug) {
+        answerCacheLookups.inc({ result: "bypass" });
+    } else {
+        const cached = getCachedAnswer<SearchResult>(cacheKey);
+        if (cached) {
+            logger.info("♻️ Answer served from cache", { scope: wiki?.key || "all" });
+            return { ...cached, cached: true };
+        }
+    }
+
+    const stopRewrite = queryDuration.startTimer({ step: "rewrite" });
+    let rewriteQuestion: string;
+    try {
+        const rewrite = await traceStep(trace, "rewrite", () => rewriteUserQuestionWithDetails(query, history));
+        rewriteQuestion = rewrite.query;
+        stopRewrite({ outcome: "ok" });
+        if (trace) {
+            trace.synonyms = rewrite.synonyms;
+            trace.rewrittenQuery = rewrite.query;
+            trace.tokens.rewrite = rewrite.usage;
+        }
+    } catch (err) {
+        stopRewrite({ outcome: "error" });
+        throw err;
+    }
 
   
     const systemInstructionPrompt = customPrompt != "" ? customPrompt : `You are an expert IT knowledge assistant for internal wiki documentation queries. Your primary directive is to provide comprehensive, accurate, and well-structured answers strictly based on the company's wiki documentation provided by the File Search tool.
@@ -503,75 +847,70 @@ export async function searchWiki(query: string, customPrompt: string = "") {
         - Numbered steps
         - **Bold** for emphasis
         - No citations, no file names, no paths, no headings from wiki
-        At the very end of your response, list "Relevant Wiki Pages" using the exact titles of the cited documents.`
+        Do NOT list source pages yourself; links to the retrieved wiki pages are added automatically.`
     
+    // Every synced document carries its wiki tag (untagged ones are re-uploaded by the next sync)
+    const filter = wiki ? { key: "wiki", stringValue: wiki.key } : undefined;
+    const model = process.env.GEMINI_MODEL_QA || "gemini-2.5-flash";
+    if (trace) {
+        trace.systemPrompt = systemInstructionPrompt;
+        trace.model = model;
+        trace.filter = filter;
+    }
+
     let retryCounter = 1;
     while(retryCounter >= 0) {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: process.env.GEMINI_MODEL_QA || "gemini-2.5-flash",
-            contents: [
-                {
-                    role: "user",
-                    parts: [
-                        {
-                            text: rewriteQuestion
-                        }
-                    ]
-                }],
-            config: {
-               systemInstruction: {               
-                parts: [{ text: systemInstructionPrompt }]
-                },
-                tools: [
-                    {
-                        fileSearch: {
-                            fileSearchStoreNames: [store.name]
-                        }
-                    }
-                ],          
-            }
-        });
-        var answerText = extractText(response);
+        const stopAnswer = queryDuration.startTimer({ step: "answer" });
+        let response;
+        try {
+            if (trace) trace.attempts++;
+            response = await traceStep(trace, "answer", () => getRagProvider().generateGrounded({
+                storeNames: [storeName],
+                systemInstruction: systemInstructionPrompt,
+                prompt: rewriteQuestion,
+                history,
+                filter,
+                model
+            }));
+            if (trace) trace.tokens.answer = addTokenUsage(trace.tokens.answer, response.usage);
+        } catch (err) {
+            stopAnswer({ outcome: "error" });
+            throw err;
+        }
+        const answerText = response.text;
+        stopAnswer({ outcome: answerText && answerText.trim().length > 0 ? "ok" : "empty" });
+        if (trace) trace.chunks = await withChunkMetadata(storeName, response.groundingChunks || []);
         if (answerText && answerText.trim().length > 0) {
-            if(process.env.DEBUG_LOGS === "1"){
-                console.log("🧠 Gemini raw response:", JSON.stringify(response, null, 2));
-            }
+            logger.debug("🧠 Gemini raw response", { raw: response.raw });
            
             retryCounter = -1;
-            return { answer: answerText || "No answer found." };
+            const result: SearchResult = {
+                answer: answerText || "No answer found.",
+                sources: buildSources(response.groundingChunks || [], storeName),
+                rewrittenQuery: rewriteQuestion,
+                scope: wiki?.key
+            };
+            setCachedAnswer(cacheKey, result);
+            return result;
         }
      
-        setTimeout(() => {}, 1000); // brief pause before retry
         retryCounter--;
+        if (retryCounter >= 0) {
+            await new Promise(res => setTimeout(res, 1000)); // brief pause before retry
+        }
     }
-    return { answer: "No answer found." };
+    return { answer: "No answer found.", sources: [], rewrittenQuery: rewriteQuestion, scope: wiki?.key, empty: true };
 }
 
 // ================= DOCUMENT LIST =================
 
 export async function listRagDocuments() {
-    initializeGemini();
+    const storeName = await resolveActiveStoreName();
+    if (!storeName) throw new Error("RAG store not found");
 
-    const store = await findRagStoreByDisplayName(DATASET_NAME);
-    if (!store?.name) throw new Error("RAG store not found");
-
-    const docsPager = await ai.fileSearchStores.documents.list({
-        parent: store.name,
-        config: {
-            'pageSize': 10,
-        },
-    });
-    const docs = [];
-
-    for await (const doc of docsPager) {
-        docs.push({
-            name: doc.name,
-            displayName: doc.displayName,
-            metadata: doc.customMetadata,
-        });
-    }
+    const docs = await getRagProvider().listDocuments(storeName);
 
-    console.log("📦 Total documents:", docs.length);
+    logger.info("📦 Total documents:", docs.length);
     return docs;
 }
 
@@ -0,0 +1,102 @@
+// src/imageAnalysis.ts
+// Helpers around image analysis: what counts as an image, where analysable files may live,
+// and how an analysis (summary + OCR) becomes a wiki question.
+import fs from "fs";
+import path from "path";
+
+const IMAGES_DIR = path.join(process.cwd(), "config", "wiki-images");
+
+const MAX_OCR_CHARS_IN_QUESTION = 1500;    // long screenshots would drown the user's own words
+
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".gif": "image/gif",
+    ".bmp": "image/bmp",
+    ".webp": "image/webp",
+    ".tif": "image/tiff",
+    ".tiff": "image/tiff"
+};
+
+export interface ImageAnalysis {
+    summary: string;
+    ocr: string;
+    error?: string;
+}
+
+export function mimeTypeForFile(file: string): string | null {
+    return IMAGE_MIME_TYPES[path.extname(file).toLowerCase()] || null;
+}
+
+/**
+ * Image type from the file's magic bytes; the Content-Type a client sends is not trusted
+ */
+export function sniffImageMimeType(data: Buffer): string | null {
+    const startsWith = (bytes: number[], offset = 0) => bytes.every((b, i) => data[offset + i] === b);
+
+    if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+    if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg";
+    if (startsWith([0x47, 0x49, 0x46, 0x38])) return "image/gif";                              // GIF8
+    if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return "image/webp";  // RIFF....WEBP
+    if (startsWith([0x42, 0x4d])) return "image/bmp";                                          // BM
+    if (startsWith([0x49, 0x49, 0x2a, 0x00]) || startsWith([0x4d, 0x4d, 0x00, 0x2a])) return "image/tiff";
+    return null;
+}
+
+/**
+ * Absolute path of an exported wiki image, or null when the requested path points
+ * anywhere outside config/wiki-images (traversal, absolute paths, symlinks out of it).
+ * Accepts a file name relative to the folder ("diagram.png", "platform/diagram.png") or a path below it
+ * ("config/wiki-images/platform/diagram.png").
+ */
+export function resolveWikiImagePath(requested: string): string | null {
+    if (!requested || requested.includes("\0") || !fs.existsSync(IMAGES_DIR)) return null;
+
+    const root = fs.realpathSync(IMAGES_DIR);
+    const isInside = (candidate: string) => {
+        const relative = path.relative(root, candidate);
+        return !!relative && !relative.startsWith("..") && !path.isAbsolute(relative);
+    };
+
+    for (const candidate of [path.resolve(IMAGES_DIR, requested), path.resolve(process.cwd(), requested)]) {
+        if (!fs.existsSync(candidate)) continue;
+        const real = fs.realpathSync(candidate);
+        if (isInside(real) && fs.statSync(real).isFile() && mimeTypeForFile(real)) return real;
+    }
+    return null;
+}
+
+/**
+ * The JSON string returned by analyzeImageWithGemini → fields
+ */
+export function parseImageAnalysis(analysis: string): ImageAnalysis {
+    try {
+        const parsed = JSON.parse(analysis);
+        return {
+            summary: String(parsed.summary || ""),
+            ocr: String(parsed.ocr || ""),
+            error: parsed.error ? String(parsed.error) : undefined
+        };
+    } catch {
+        return { summary: "", ocr: analysis };
+    }
+}
+
+/**
+ * Search question for "what does this screenshot mean": the user's words first,
+ * then the text read from the image (capped) and what the image shows
+ */
+export function buildQuestionFromImage(question: string, analysis: ImageAnalysis): string {
+    const ocr = analysis.ocr.replace(/\s+/g, " ").trim();
+    const parts = [question.trim() || "What does this mean and how do I fix it?"];
+
+    if (ocr) {
+        const clipped = ocr.length > MAX_OCR_CHARS_IN_QUESTION ? ocr.substring(0, MAX_OCR_CHARS_IN_QUESTION) + "…" : ocr;
+        parts.push(`Text in the attached screenshot: "${clipped}"`);
+    }
+    if (analysis.summary.trim()) {
+        parts.push(`The screenshot shows: ${analysis.summary.trim()}`);
+    }
+    return parts.join("\n");
+}
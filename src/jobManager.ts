@@ -0,0 +1,256 @@
+// src/jobManager.ts
+// Long-running operations (export, sync, synonyms, wiki pushes) run as background jobs the HTTP layer can poll and cancel.
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { getRequestContext, newRequestId, runWithRequestContext } from "./utils/requestContext";
+import { logger } from "./utils/logger";
+
+const JOBS_FILE = path.join(process.cwd(), "config", "jobs.json");
+const MAX_KEPT_JOBS = 50;
+
+export type JobType = "export" | "sync" | "synonyms" | "pipeline" | "wiki-push";
+export type JobStatus = "running" | "succeeded" | "failed" | "cancelled";
+
+export interface JobFileError {
+    file: string;
+    error: string;
+}
+
+export interface JobProgress {
+    phase: string;
+    pagesProcessed: number;
+    pagesTotal: number;
+    imagesDownloaded: number;
+    imagesAnalysed: number;
+    errors: JobFileError[];
+}
+
+export interface Job {
+    id: string;
+    type: JobType;
+    status: JobStatus;
+    progress: JobProgress;
+    result?: unknown;
+    error?: string;
+    requestId?: string;     // correlation id of the request that started it (logs carry it too)
+    createdAt: string;
+    finishedAt?: string;
+}
+
+/**
+ * Handed to the work function so it can report progress and stop when cancelled
+ */
+export interface JobContext {
+    readonly jobId: string;
+    readonly signal: AbortSignal;
+    setPhase(phase: string): void;
+    update(progress: Partial<Omit<JobProgress, "errors">>): void;
+    increment(counter: "pagesProcessed" | "imagesDownloaded" | "imagesAnalysed", by?: number): void;
+    addError(file: string, error: unknown): void;
+    throwIfCancelled(): void;
+}
+
+export class JobCancelledError extends Error {
+    constructor(jobId: string) {
+        super(`Job ${jobId} was cancelled`);
+        this.name = "JobCancelledError";
+    }
+}
+
+const jobs = new Map<string, Job>();
+const controllers = new Map<string, AbortController>();
+const completions = new Map<string, Promise<Job>>();
+let loaded = false;
+
+// ================= PERSISTENCE =================
+
+/**
+ * Finished jobs are kept on disk so their outcome is still visible after a restart.
+ * A job that was running when the process stopped can never finish → mark it failed.
+ */
+function loadJobs() {
+    if (loaded) return;
+    loaded = true;
+
+    if (!fs.existsSync(JOBS_FILE)) return;
+    try {
+        const saved: Job[] = JSON.parse(fs.readFileSync(JOBS_FILE, "utf8"));
+        for (const job of saved) {
+            if (job.status === "running") {
+                job.status = "failed";
+                job.error = "Interrupted by server restart";
+                job.finishedAt = job.finishedAt || new Date().toISOString();
+            }
+            jobs.set(job.id, job);
+        }
+    } catch (err) {
+        logger.error("⚠️ Failed to read jobs file:", err);
+    }
+}
+
+function saveJobs() {
+    const all = Array.from(jobs.values())
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    // Keep running jobs plus the most recent finished ones
+    const finished = all.filter(j => j.status !== "running");
+    for (const old of finished.slice(0, Math.max(0, finished.length - MAX_KEPT_JOBS))) {
+        jobs.delete(old.id);
+    }
+
+    try {
+        const dir = path.dirname(JOBS_FILE);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+        fs.writeFileSync(JOBS_FILE, JSON.stringify(Array.from(jobs.values()), null, 2), "utf8");
+    } catch (err) {
+        logger.error("⚠️ Failed to save jobs file:", err);
+    }
+}
+
+// ================= API =================
+
+function createContext(job: Job, controller: AbortController): JobContext {
+    return {
+        jobId: job.id,
+        signal: controller.signal,
+        setPhase(phase) {
+            job.progress.phase = phase;
+            logger.info(`⚙️ Job ${job.type}/${job.id}: ${phase}`);
+        },
+        update(progress) {
+            Object.assign(job.progress, progress);
+        },
+        increment(counter, by = 1) {
+            job.progress[counter] += by;
+        },
+        addError(file, error) {
+            const message = error instanceof Error ? error.message : String(error);
+            job.progress.errors.push({ file, error: message });
+        },
+        throwIfCancelled() {
+            if (controller.signal.aborted) throw new JobCancelledError(job.id);
+        }
+    };
+}
+
+export function findRunningJob(type: JobType): Job | null {
+    loadJobs();
+    for (const job of jobs.values()) {
+        if (job.type === type && job.status === "running") return job;
+    }
+    return null;
+}
+
+/**
+ * Anything writing the export folder, the synonyms or the store (they must never overlap)
+ */
+export function findBusyWikiJob(): Job | null {
+    return findRunningJob("pipeline") || findRunningJob("export") || findRunningJob("sync") ||
+        findRunningJob("synonyms") || findRunningJob("wiki-push");
+}
+
+/**
+ * Start work in the background and return immediately.
+ * The work keeps running whether or not the HTTP client stays connected.
+ */
+export function startJob(type: JobType, work: (ctx: JobContext) => Promise<unknown>): Job {
+    loadJobs();
+
+    const running = findRunningJob(type);
+    if (running) {
+        throw new Error(`A ${type} job is already running: ${running.id}`);
+    }
+
+    const job: Job = {
+        id: crypto.randomUUID(),
+        type,
+        status: "running",
+        progress: {
+            phase: "starting",
+            pagesProcessed: 0,
+            pagesTotal: 0,
+            imagesDownloaded: 0,
+            imagesAnalysed: 0,
+            errors: []
+        },
+        requestId: getRequestContext()?.requestId || newRequestId(),
+        createdAt: new Date().toISOString()
+    };
+
+    const controller = new AbortController();
+    jobs.set(job.id, job);
+    controllers.set(job.id, controller);
+    saveJobs();
+
+    logger.info(`🧵 Job started: ${type}/${job.id}`);
+
+    // Logs of the work and its completion carry the job id and the starter's correlation id
+    const completion = runWithRequestContext({ requestId: job.requestId!, jobId: job.id }, () =>
+        work(createContext(job, controller))
+            .then(result => {
+                job.status = "succeeded";
+                job.result = result;
+                job.progress.phase = "done";
+            })
+            .catch(err => {
+                const cancelled = err instanceof JobCancelledError || controller.signal.aborted;
+                job.status = cancelled ? "cancelled" : "failed";
+                job.error = err instanceof Error ? err.message : String(err);
+                logger.error(`🔥 Job ${type}/${job.id} ${job.status}:`, job.error);
+            })
+            .finally(() => {
+                job.finishedAt = new Date().toISOString();
+                controllers.delete(job.id);
+                completions.delete(job.id);
+                saveJobs();
+                logger.info(`🏁 Job finished: ${type}/${job.id} → ${job.status}`);
+            })
+            .then(() => job)
+    );
+
+    completions.set(job.id, completion);
+    return job;
+}
+
+export function getJob(id: string): Job | null {
+    loadJobs();
+    return jobs.get(id) || null;
+}
+
+/**
+ * Resolves with the job once it has finished (whatever its status)
+ */
+export async function waitForJob(id: string): Promise<Job> {
+    const pending = completions.get(id);
+    if (pending) return pending;
+
+    const job = getJob(id);
+    if (!job) throw new Error(`Job not found: ${id}`);
+    return job;
+}
+
+export function listJobs(): Job[] {
+    loadJobs();
+    return Array.from(jobs.values())
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Request cancellation; the job stops at its next checkpoint
+ */
+export function cancelJob(id: string): Job {
+    const job = getJob(id);
+    if (!job) throw new Error(`Job not found: ${id}`);
+
+    const controller = controllers.get(id);
+    if (job.status !== "running" || !controller) {
+        throw new Error(`Job ${id} is not running (${job.status})`);
+    }
+
+    controller.abort();
+    job.progress.phase = "cancelling";
+    return job;
+}
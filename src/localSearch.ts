@@ -0,0 +1,302 @@
+// src/localSearch.ts
+// Full-text BM25 index over the exported wiki JSON files (no network needed).
+import fs from "fs";
+import path from "path";
+import { findRelevantSynonyms } from "./rewriteQueryForFileSearch";
+import { DEFAULT_WIKI_KEY } from "./wikiConfig";
+import { chunkMarkdown } from "./markdownChunker";
+import { logger } from "./utils/logger";
+
+const FILES_DIR = path.join(process.cwd(), "config", "wiki-files");
+
+// BM25 parameters (standard defaults)
+const K1 = 1.2;
+const B = 0.75;
+const TITLE_BOOST = 3;      // a title hit counts as 3 content hits
+const SYNONYM_WEIGHT = 0.5; // expanded terms count half as much as typed terms
+const SNIPPET_CHARS = 240;
+
+const STOPWORDS = new Set([
+    "a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "does", "for", "from",
+    "how", "i", "in", "into", "is", "it", "me", "my", "of", "on", "or", "our", "should",
+    "that", "the", "their", "there", "this", "to", "was", "we", "what", "when", "where",
+    "which", "who", "why", "will", "with", "you", "your"
+]);
+
+export interface LocalSearchResult {
+    wiki: string;
+    title: string;
+    remoteUrl: string;
+    file: string;
+    score: number;
+    snippet: string;
+}
+
+interface IndexedPage {
+    wiki: string;
+    file: string;
+    title: string;
+    remoteUrl: string;
+    text: string;                   // markdown-stripped content, for snippets
+    sections: Map<string, string>;  // heading anchor → "Parent › Heading"
+    termFreq: Map<string, number>;  // title-boosted term frequencies
+    length: number;
+}
+
+export interface WikiPageRef {
+    file: string;
+    title: string;
+    remoteUrl: string;
+    section?: string;   // set when looked up as "<file>#<anchor>"
+}
+
+interface SearchIndex {
+    signature: string;
+    pages: IndexedPage[];
+    byKey: Map<string, IndexedPage>;    // lookup by file name and by page title
+    docFreq: Map<string, number>;
+    avgLength: number;
+}
+
+let index: SearchIndex | null = null;
+
+// ================= TOKENIZATION =================
+
+/**
+ * Light suffix stripping so "deploys", "deployed" and "deploying" meet at "deploy"
+ */
+function stem(token: string): string {
+    if (token.length > 4 && token.endsWith("ies")) return token.slice(0, -3) + "y";
+    if (token.length > 5 && token.endsWith("ing")) return token.slice(0, -3);
+    if (token.length > 4 && token.endsWith("ed")) return token.slice(0, -2);
+    if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) return token.slice(0, -1);
+    return token;
+}
+
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(t => t.length > 1 && !STOPWORDS.has(t))
+        .map(stem);
+}
+
+function stripMarkdown(text: string): string {
+    return text
+        .replace(/!\[.*?\]\(.*?\)/g, " ")            // images
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")     // links → link text
+        .replace(/\[\[_.*?_\]\]/g, " ")              // TOC macros
+        .replace(/[`*_#>|]/g, " ")                   // formatting characters
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+// ================= INDEX =================
+
+/**
+ * Cheap change detector (one stat per search): the folder's mtime moves when export files are
+ * added, removed or renamed. Rewrites in place don't move it → exports call invalidateLocalSearchIndex().
+ */
+function directorySignature(): string {
+    try {
+        return String(fs.statSync(FILES_DIR).mtimeMs);
+    } catch {
+        return "missing";
+    }
+}
+
+/**
+ * Drop the index after the export folder changed; it is rebuilt on the next search
+ */
+export function invalidateLocalSearchIndex() {
+    index = null;
+}
+
+function buildIndex(files: string[], signature: string): SearchIndex {
+    const pages: IndexedPage[] = [];
+    const docFreq = new Map<string, number>();
+    let changedWhileReading = false;
+
+    for (const file of files) {
+        try {
+            const json = JSON.parse(fs.readFileSync(path.join(FILES_DIR, file), "utf8"));
+            const title = json.title || file;
+            const text = stripMarkdown(json.content || "");
+
+            const sections = new Map<string, string>();
+            for (const chunk of chunkMarkdown(json.content || "")) {
+                if (chunk.anchor) sections.set(chunk.anchor, chunk.breadcrumb.join(" › "));
+            }
+
+            const termFreq = new Map<string, number>();
+            for (const token of tokenize(text)) {
+                termFreq.set(token, (termFreq.get(token) || 0) + 1);
+            }
+            for (const token of tokenize(title)) {
+                termFreq.set(token, (termFreq.get(token) || 0) + TITLE_BOOST);
+            }
+
+            let length = 0;
+            for (const [term, count] of termFreq) {
+                length += count;
+                docFreq.set(term, (docFreq.get(term) || 0) + 1);
+            }
+
+            pages.push({ wiki: json.wiki || DEFAULT_WIKI_KEY, file, title, remoteUrl: json.source || "", text, sections, termFreq, length });
+        } catch (err: any) {
+            // Removed between readdir and read (e.g. an export pruning pages) → the folder changed, not an error
+            if (err?.code === "ENOENT") {
+                changedWhileReading = true;
+                continue;
+            }
+            logger.error(`⚠️ Failed to index wiki file: ${file}`, err);
+        }
+    }
+
+    const avgLength = pages.length
+        ? pages.reduce((sum, p) => sum + p.length, 0) / pages.length
+        : 0;
+
+    const byKey = new Map<string, IndexedPage>();
+    for (const page of pages) {
+        byKey.set(page.file, page);
+        byKey.set(page.title, page);
+    }
+
+    logger.info(`📇 Local search index built: ${pages.length} pages, ${docFreq.size} terms`);
+    return { signature: changedWhileReading ? "" : signature, pages, byKey, docFreq, avgLength };
+}
+
+function getIndex(): SearchIndex {
+    const signature = directorySignature();
+    if (index && index.signature === signature) return index;
+
+    const files = fs.existsSync(FILES_DIR)
+        ? fs.readdirSync(FILES_DIR).filter(f => f.endsWith(".json")).sort()
+        : [];
+    index = buildIndex(files, signature);
+    return index;
+}
+
+// Azure DevOps opens a page scrolled to a heading with the "anchor" query parameter
+function sectionUrl(remoteUrl: string, anchor: string): string {
+    return `${remoteUrl}${remoteUrl.includes("?") ? "&" : "?"}anchor=${anchor}`;
+}
+
+/**
+ * Find an exported page by its JSON file name or wiki title. Section chunks are named
+ * "<file>#<anchor>" → the ref deep-links to that heading.
+ */
+export function lookupWikiPage(fileOrTitle: string): WikiPageRef | null {
+    const idx = getIndex();
+    const direct = idx.byKey.get(fileOrTitle);
+    if (direct) return { file: direct.file, title: direct.title, remoteUrl: direct.remoteUrl };
+
+    const hash = fileOrTitle.indexOf("#");
+    if (hash < 0) return null;
+
+    const page = idx.byKey.get(fileOrTitle.substring(0, hash));
+    if (!page) return null;
+
+    const anchor = fileOrTitle.substring(hash + 1);
+    const section = page.sections.get(anchor);
+    return {
+        file: page.file,
+        title: page.title,
+        remoteUrl: page.remoteUrl && section ? sectionUrl(page.remoteUrl, anchor) : page.remoteUrl,
+        section
+    };
+}
+
+// ================= SEARCH =================
+
+/**
+ * Query terms with their weights: typed terms = 1, synonym expansions = SYNONYM_WEIGHT
+ */
+function buildQueryTerms(query: string): Map<string, number> {
+    const terms = new Map<string, number>();
+    for (const token of tokenize(query)) terms.set(token, 1);
+
+    for (const entry of findRelevantSynonyms(query)) {
+        for (const phrase of [entry.term, ...entry.synonyms]) {
+            for (const token of tokenize(phrase)) {
+                if (!terms.has(token)) terms.set(token, SYNONYM_WEIGHT);
+            }
+        }
+    }
+    return terms;
+}
+
+function buildSnippet(text: string, terms: Map<string, number>): string {
+    const lower = text.toLowerCase();
+
+    let hit = -1;
+    for (const term of terms.keys()) {
+        const pos = lower.indexOf(term);
+        if (pos !== -1 && (hit === -1 || pos < hit)) hit = pos;
+    }
+
+    const start = Math.max(0, hit - SNIPPET_CHARS / 4);
+    const snippet = text.substring(start, start + SNIPPET_CHARS).trim();
+    return (start > 0 ? "…" : "") + snippet + (start + SNIPPET_CHARS < text.length ? "…" : "");
+}
+
+/**
+ * BM25 over all exported pages; `wiki` restricts results to one wiki key
+ * (statistics stay global so scores are comparable across scopes)
+ */
+export function searchLocalIndex(query: string, limit = 5, wiki?: string): LocalSearchResult[] {
+    const { pages, docFreq, avgLength } = getIndex();
+    const terms = buildQueryTerms(query);
+    if (terms.size === 0 || pages.length === 0) return [];
+
+    const scored: LocalSearchResult[] = [];
+
+    for (const page of pages) {
+        if (wiki && page.wiki !== wiki) continue;
+
+        let score = 0;
+
+        for (const [term, weight] of terms) {
+            const tf = page.termFreq.get(term);
+            if (!tf) continue;
+
+            const df = docFreq.get(term) || 0;
+            const idf = Math.log(1 + (pages.length - df + 0.5) / (df + 0.5));
+            const norm = tf * (K1 + 1) / (tf + K1 * (1 - B + B * page.length / (avgLength || 1)));
+            score += weight * idf * norm;
+        }
+
+        if (score > 0) {
+            scored.push({
+                wiki: page.wiki,
+                title: page.title,
+                remoteUrl: page.remoteUrl,
+                file: page.file,
+                score: Number(score.toFixed(4)),
+                snippet: buildSnippet(page.text, terms)
+            });
+        }
+    }
+
+    return scored
+        .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+        .slice(0, limit);
+}
+
+/**
+ * Plain-text answer used when the LLM path is unavailable
+ */
+export function formatLocalSearchAnswer(results: LocalSearchResult[]): string {
+    if (results.length === 0) {
+        return "⚠️ AI search is unavailable right now and no wiki pages matched your question.";
+    }
+
+    const lines = results.map((r, i) => {
+        const title = r.remoteUrl ? `[${r.title}](${r.remoteUrl})` : r.title;
+        return `${i + 1}. **${title}**\n${r.snippet}`;
+    });
+
+    return "⚠️ AI search is unavailable right now. These wiki pages best match your question:\n\n" +
+        lines.join("\n\n");
+}
@@ -0,0 +1,197 @@
+// src/markdownChunker.ts
+// Splits a wiki page into heading sections so each section is retrieved (and cited) on its own.
+// Code blocks and tables are never split; a section only spans several chunks when it is too long.
+
+const MAX_CHUNK_CHARS = 4000;
+
+export interface MarkdownChunk {
+    index: number;
+    anchor: string;         // Azure DevOps style heading anchor ("" for text before the first heading)
+    heading: string;        // "" for text before the first heading
+    breadcrumb: string[];   // parent headings down to this section's heading
+    text: string;
+}
+
+interface Block {
+    kind: "heading" | "code" | "table" | "text";
+    text: string;
+    level?: number;
+}
+
+interface Section {
+    heading: string;
+    anchor: string;
+    breadcrumb: string[];
+    blocks: string[];
+}
+
+// CommonMark: a closing "#" run only counts after a space ("## Using C#" keeps its "#")
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const FENCE_CLOSE = /^ {0,3}(`{3,}|~{3,})\s*$/;
+const INDENTED_CODE = /^( {4}|\t)/;
+
+// ================= BLOCKS =================
+
+/**
+ * Line-level pass: headings, fenced and indented code, tables and paragraphs (blank lines separate text)
+ */
+function toBlocks(markdown: string): Block[] {
+    const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+    const blocks: Block[] = [];
+    let text: string[] = [];
+
+    const flushText = () => {
+        if (text.length > 0) blocks.push({ kind: "text", text: text.join("\n") });
+        text = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        const fence = line.match(FENCE);
+        if (fence) {
+            flushText();
+            const marker = fence[1];
+            const code = [line];
+            // Everything up to the closing fence (or the end of the page) is one block
+            while (++i < lines.length) {
+                code.push(lines[i]);
+                const close = lines[i].match(FENCE_CLOSE);
+                if (close && close[1][0] === marker[0] && close[1].length >= marker.length) break;
+            }
+            blocks.push({ kind: "code", text: code.join("\n") });
+            continue;
+        }
+
+        // Indented code can't interrupt a paragraph (the line continues it); blank lines inside stay in the block
+        if (text.length === 0 && INDENTED_CODE.test(line) && line.trim() !== "") {
+            const code = [line];
+            while (i + 1 < lines.length) {
+                let next = i + 1;
+                while (next < lines.length && lines[next].trim() === "") next++;
+                if (next >= lines.length || !INDENTED_CODE.test(lines[next])) break;
+                code.push(...lines.slice(i + 1, next + 1));
+                i = next;
+            }
+            blocks.push({ kind: "code", text: code.join("\n") });
+            continue;
+        }
+
+        const heading = line.match(HEADING);
+        if (heading) {
+            flushText();
+            blocks.push({ kind: "heading", text: heading[2], level: heading[1].length });
+            continue;
+        }
+
+        if (line.trim().startsWith("|")) {
+            flushText();
+            const table = [line];
+            while (i + 1 < lines.length && lines[i + 1].trim().startsWith("|")) {
+                table.push(lines[++i]);
+            }
+            blocks.push({ kind: "table", text: table.join("\n") });
+            continue;
+        }
+
+        if (line.trim() === "") {
+            flushText();
+        } else {
+            text.push(line);
+        }
+    }
+    flushText();
+
+    return blocks;
+}
+
+// ================= ANCHORS =================
+
+function plainHeading(text: string): string {
+    return text
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+        .replace(/[*_`]/g, "")
+        .trim();
+}
+
+/**
+ * "Step 2: Install" → "step-2%3A-install" (lowercase, spaces → "-", other symbols percent-encoded)
+ */
+export function headingAnchor(heading: string): string {
+    return plainHeading(heading)
+        .toLowerCase()
+        .replace(/\s+/g, "-")
+        .replace(/[^a-z0-9_-]/g, c => encodeURIComponent(c));
+}
+
+// ================= CHUNKS =================
+
+function toSections(blocks: Block[]): Section[] {
+    const sections: Section[] = [{ heading: "", anchor: "", breadcrumb: [], blocks: [] }];
+    const stack: { level: number; heading: string }[] = [];
+    const anchorCounts = new Map<string, number>();
+
+    for (const block of blocks) {
+        if (block.kind !== "heading") {
+            sections[sections.length - 1].blocks.push(block.text);
+            continue;
+        }
+
+        const heading = plainHeading(block.text);
+        while (stack.length > 0 && stack[stack.length - 1].level >= block.level!) stack.pop();
+        stack.push({ level: block.level!, heading });
+
+        // Repeated headings get "-1", "-2", … like the rendered page
+        const base = headingAnchor(heading);
+        const seen = anchorCounts.get(base) || 0;
+        anchorCounts.set(base, seen + 1);
+
+        sections.push({
+            heading,
+            anchor: seen === 0 ? base : `${base}-${seen}`,
+            breadcrumb: stack.map(s => s.heading),
+            blocks: []
+        });
+    }
+
+    return sections;
+}
+
+/**
+ * Heading-delimited chunks of a markdown page. Sections without body text are skipped
+ * (their heading still appears in the breadcrumb of their sub-sections).
+ */
+export function chunkMarkdown(markdown: string, maxChars = MAX_CHUNK_CHARS): MarkdownChunk[] {
+    const chunks: MarkdownChunk[] = [];
+
+    for (const section of toSections(toBlocks(markdown || ""))) {
+        if (section.blocks.length === 0) continue;
+
+        // Pack whole blocks; one oversized block (e.g. a long code sample) stays in one piece
+        let current: string[] = [];
+        let size = 0;
+        const emit = () => {
+            if (current.length === 0) return;
+            chunks.push({
+                index: chunks.length,
+                anchor: section.anchor,
+                heading: section.heading,
+                breadcrumb: section.breadcrumb,
+                text: current.join("\n\n")
+            });
+            current = [];
+            size = 0;
+        };
+
+        for (const block of section.blocks) {
+            if (size > 0 && size + block.length > maxChars) emit();
+            current.push(block);
+            size += block.length + 2;
+        }
+        emit();
+    }
+
+    return chunks;
+}
@@ -0,0 +1,224 @@
+// src/metrics.ts
+// Prometheus metrics for queries, Slack delivery, exports, syncs and model usage, served on GET /metrics.
+// Values live in memory and restart from zero with the process (Prometheus handles counter resets).
+import { TokenUsage } from "./providers/ragProvider";
+
+type Labels = Record<string, string>;
+
+interface Metric {
+    name: string;
+    help: string;
+    type: "counter" | "histogram";
+    render(): string[];
+}
+
+const registry: Metric[] = [];
+
+// Latency buckets in seconds: model calls take ~1–20s, syncs minutes
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 30, 60];
+const SYNC_BUCKETS = [10, 30, 60, 120, 300, 600, 1200, 1800, 3600, 7200];
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabelValue(v)}"`);
+    return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+    if (value === Infinity) return "+Inf";
+    return String(value);
+}
+
+// Fixed label order → one series per label combination, whatever order the caller used
+function seriesKey(labelNames: string[], labels: Labels): string {
+    return JSON.stringify(labelNames.map(name => labels[name] ?? ""));
+}
+
+function pickLabels(labelNames: string[], labels: Labels): Labels {
+    const picked: Labels = {};
+    for (const name of labelNames) picked[name] = labels[name] ?? "";
+    return picked;
+}
+
+// ================= METRIC TYPES =================
+
+export interface Counter {
+    inc(labels?: Labels, value?: number): void;
+}
+
+export interface Histogram {
+    observe(labels: Labels, value: number): void;
+    startTimer(labels?: Labels): (extraLabels?: Labels) => number;   // stop → observes and returns seconds
+}
+
+function counter(name: string, help: string, labelNames: string[] = []): Counter {
+    const series = new Map<string, { labels: Labels; value: number }>();
+
+    registry.push({
+        name,
+        help,
+        type: "counter",
+        render: () => Array.from(series.values()).map(s => `${name}${formatLabels(s.labels)} ${formatValue(s.value)}`)
+    });
+
+    return {
+        inc(labels = {}, value = 1) {
+            if (!(value >= 0)) return; // counters only go up
+            const key = seriesKey(labelNames, labels);
+            const entry = series.get(key) || { labels: pickLabels(labelNames, labels), value: 0 };
+            entry.value += value;
+            series.set(key, entry);
+        }
+    };
+}
+
+function histogram(name: string, help: string, labelNames: string[], buckets = LATENCY_BUCKETS): Histogram {
+    const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+    registry.push({
+        name,
+        help,
+        type: "histogram",
+        render: () => {
+            const lines: string[] = [];
+            for (const s of series.values()) {
+                // Bucket counts are stored per bucket and rendered cumulative
+                let cumulative = 0;
+                buckets.forEach((le, i) => {
+                    cumulative += s.counts[i];
+                    lines.push(`${name}_bucket${formatLabels({ ...s.labels, le: formatValue(le) })} ${cumulative}`);
+                });
+                lines.push(`${name}_bucket${formatLabels({ ...s.labels, le: "+Inf" })} ${s.count}`);
+                lines.push(`${name}_sum${formatLabels(s.labels)} ${formatValue(s.sum)}`);
+                lines.push(`${name}_count${formatLabels(s.labels)} ${s.count}`);
+            }
+            return lines;
+        }
+    });
+
+    const observe = (labels: Labels, value: number) => {
+        if (!Number.isFinite(value)) return;
+        const key = seriesKey(labelNames, labels);
+        const entry = series.get(key) || {
+            labels: pickLabels(labelNames, labels),
+            counts: buckets.map(() => 0),
+            sum: 0,
+            count: 0
+        };
+        const index = buckets.findIndex(le => value <= le);
+        if (index !== -1) entry.counts[index]++;
+        entry.sum += value;
+        entry.count++;
+        series.set(key, entry);
+    };
+
+    return {
+        observe,
+        startTimer(labels = {}) {
+            const started = process.hrtime.bigint();
+            return (extraLabels = {}) => {
+                const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+                observe({ ...labels, ...extraLabels }, seconds);
+                return seconds;
+            };
+        }
+    };
+}
+
+// ================= METRICS =================
+
+// step: rewrite (question → file search instruction), answer (grounded generation), total (incl. fallback)
+export const queryDuration = histogram(
+    "wiki_query_duration_seconds",
+    "Wiki question latency by step",
+    ["step", "outcome"]
+);
+
+// outcome: answered | empty (model returned nothing) | fallback (local index answered) | error
+export const queriesTotal = counter(
+    "wiki_queries_total",
+    "Wiki questions by outcome",
+    ["outcome", "scope"]
+);
+
+// result: hit | miss | bypass (caller asked for a fresh answer)
+export const answerCacheLookups = counter(
+    "answer_cache_lookups_total",
+    "Answer cache lookups by result",
+    ["result"]
+);
+
+export const slackDeliveryFailures = counter(
+    "slack_delivery_failures_total",
+    "Slack messages that could not be delivered",
+    ["via"]
+);
+
+// policy: user | channel | workspace | daily
+export const rateLimitRejections = counter(
+    "rate_limit_rejections_total",
+    "Requests rejected by the rate limiter",
+    ["route", "policy"]
+);
+
+// result: fetched | unchanged (served from the page cache) | failed
+export const pagesExported = counter(
+    "wiki_pages_exported_total",
+    "Wiki pages written to the export folder",
+    ["wiki", "result"]
+);
+
+// result: ok | unparsed (model did not return the expected JSON) | error
+export const imagesAnalysed = counter(
+    "images_analysed_total",
+    "Images described by the vision model",
+    ["result"]
+);
+
+// mode: full | incremental | partial (webhook), outcome: success | error
+export const syncDuration = histogram(
+    "rag_sync_duration_seconds",
+    "Wiki → RAG store sync duration",
+    ["mode", "outcome"],
+    SYNC_BUCKETS
+);
+
+export const uploadFailures = counter(
+    "rag_upload_failures_total",
+    "Documents the RAG store rejected",
+    ["type"]
+);
+
+// kind: prompt | output | thoughts | tool_use, as reported in the model response's usage metadata
+export const modelTokens = counter(
+    "llm_tokens_total",
+    "Tokens used by model calls",
+    ["operation", "model", "kind"]
+);
+
+export function recordTokenUsage(operation: string, model: string, usage: TokenUsage) {
+    modelTokens.inc({ operation, model, kind: "prompt" }, usage.promptTokens);
+    modelTokens.inc({ operation, model, kind: "output" }, usage.outputTokens);
+    modelTokens.inc({ operation, model, kind: "thoughts" }, usage.thoughtsTokens);
+    modelTokens.inc({ operation, model, kind: "tool_use" }, usage.toolUseTokens);
+}
+
+// ================= EXPOSITION =================
+
+/**
+ * All metrics in Prometheus text exposition format (version 0.0.4)
+ */
+export function renderMetrics(): string {
+    const lines: string[] = [];
+    for (const metric of registry) {
+        lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`);
+        lines.push(`# TYPE ${metric.name} ${metric.type}`);
+        lines.push(...metric.render());
+    }
+    return lines.join("\n") + "\n";
+}
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
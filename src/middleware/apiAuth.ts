@@ -0,0 +1,123 @@
+import { Request, Response, NextFunction } from "express";
+import { ApiKey, ApiRole, findApiKey, isApiAuthDisabled, loadApiKeys, roleAllows } from "../apiKeys";
+import { recordAudit } from "../auditLog";
+import { getRequestContext } from "../utils/requestContext";
+import { logger } from "../utils/logger";
+
+// "Authorization: Bearer <key>" or "X-API-Key: <key>"
+function presentedKey(req: Request): string | null {
+    const authorization = req.headers.authorization || "";
+    if (authorization.startsWith("Bearer ")) return authorization.slice(7).trim() || null;
+
+    const header = req.headers["x-api-key"];
+    return typeof header === "string" && header.trim() ? header.trim() : null;
+}
+
+// What the admin asked for (flags, paths, limits) without dumping large bodies
+function auditParams(req: Request): Record<string, unknown> | undefined {
+    const params: Record<string, unknown> = {};
+    const sources = [req.query, req.body && typeof req.body === "object" && !Buffer.isBuffer(req.body) ? req.body : {}];
+
+    for (const source of sources) {
+        for (const [name, value] of Object.entries(source || {})) {
+            if (value === null || ["string", "number", "boolean"].includes(typeof value)) {
+                params[name] = typeof value === "string" ? value.substring(0, 200) : value;
+            }
+        }
+    }
+    if (req.params?.id) params.id = req.params.id;
+    return Object.keys(params).length ? params : undefined;
+}
+
+function auditOnFinish(req: Request, res: Response, caller: ApiKey | null) {
+    const started = Date.now();
+    res.on("finish", () => {
+        recordAudit({
+            time: new Date().toISOString(),
+            requestId: getRequestContext()?.requestId,
+            caller: caller?.name || "anonymous",
+            role: caller?.role,
+            method: req.method,
+            path: req.path,
+            params: auditParams(req),
+            ip: req.ip,
+            status: res.statusCode,
+            outcome: res.locals.authDenied ? "denied" : "allowed",
+            durationMs: Date.now() - started
+        });
+    });
+}
+
+/**
+ * For public routes with a costly option: a valid key of any role (or API_AUTH=off), without rejecting the call
+ */
+export function hasValidApiKey(req: Request): boolean {
+    if (isApiAuthDisabled()) return true;
+    const presented = presentedKey(req);
+    try {
+        return !!presented && !!findApiKey(presented);
+    } catch (err) {
+        logger.error("🔥 Failed to load API keys:", err);
+        return false;
+    }
+}
+
+/**
+ * Audit an admin-only option of a reader route (e.g. debug traces) like an admin route call
+ */
+export function auditAdminOption(req: Request, res: Response, denied: boolean) {
+    res.locals.authDenied = denied;
+    auditOnFinish(req, res, res.locals.apiKey || null);
+}
+
+/**
+ * API key / bearer token check. `reader` routes answer questions, `admin` routes change the
+ * store or expose raw wiki data; every admin call (allowed or not) is written to the audit log.
+ * The matched key is available to later handlers as res.locals.apiKey.
+ */
+export function requireRole(role: ApiRole) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const presented = presentedKey(req);
+        let key: ApiKey | null = null;
+        let configured = false;
+        let keysError: unknown = null;
+        try {
+            configured = loadApiKeys().length > 0;
+            key = presented ? findApiKey(presented) : null;
+        } catch (err) {
+            keysError = err;
+        }
+
+        if (role === "admin") auditOnFinish(req, res, key);
+
+        if (isApiAuthDisabled()) {
+            res.locals.apiKey = key;
+            return next();
+        }
+
+        res.locals.authDenied = true;
+        // A broken config/api-keys.json fails closed, with JSON instead of an HTML error page
+        if (keysError) {
+            logger.error("🔥 Failed to load API keys, refusing the request:", keysError);
+            return res.status(503).json({ error: "API keys could not be loaded (check config/api-keys.json)" });
+        }
+        if (!configured) {
+            return res.status(503).json({ error: "API authentication is not configured (set API keys or API_AUTH=off)" });
+        }
+        if (!presented) {
+            res.setHeader("WWW-Authenticate", 'Bearer realm="wiki-rag"');
+            return res.status(401).json({ error: "API key required (Authorization: Bearer <key> or X-API-Key)" });
+        }
+        if (!key) {
+            logger.warn("🔒 Rejected unknown API key", { path: req.path, ip: req.ip });
+            return res.status(401).json({ error: "Invalid API key" });
+        }
+        if (!roleAllows(key.role, role)) {
+            return res.status(403).json({ error: `This route needs the ${role} role; key "${key.name}" is ${key.role}` });
+        }
+
+        res.locals.authDenied = false;
+        res.locals.apiKey = key;
+        next();
+    };
+}
@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from "express";
+import { logger } from "../utils/logger";
+import { newRequestId, runWithRequestContext } from "../utils/requestContext";
+
+const REQUEST_ID_HEADER = "x-request-id";
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,100}$/;
+
+// Probes and scrapes are polled constantly → only visible at debug level
+const QUIET_PATHS = new Set(["/health", "/ready", "/metrics"]);
+
+/**
+ * Give every request a correlation id (the caller's X-Request-Id when valid) and run the rest
+ * of the chain inside it, so all logs of the request, including work that continues after the
+ * response (Slack answers, jobs), carry the same requestId.
+ * Mount it after body parsing: body parsers resume on stream events outside the context.
+ */
+export function correlationId(req: Request, res: Response, next: NextFunction) {
+    const incoming = req.headers[REQUEST_ID_HEADER];
+    const requestId = typeof incoming === "string" && VALID_REQUEST_ID.test(incoming) ? incoming : newRequestId();
+    const started = Date.now();
+
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+
+    runWithRequestContext({ requestId }, () => {
+        res.on("finish", () => {
+            const fields = { method: req.method, path: req.path, status: res.statusCode, durationMs: Date.now() - started };
+            if (QUIET_PATHS.has(req.path)) {
+                logger.debug("🌐 Request", fields);
+            } else {
+                logger.info("🌐 Request", fields);
+            }
+        });
+        next();
+    });
+}
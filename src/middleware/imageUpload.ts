@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import { sniffImageMimeType } from "../imageAnalysis";
+import { getRequestContext, runWithRequestContext } from "../utils/requestContext";
+
+const MAX_UPLOAD_MB = Number(process.env.IMAGE_UPLOAD_MAX_MB) || 10;
+
+const ALLOWED_MIME_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp", "image/bmp", "image/tiff"]);
+
+// Kept in memory: uploads are analysed and dropped, never written to the server
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_UPLOAD_MB * 1024 * 1024, files: 1, fields: 10 },
+    fileFilter: (_req, file, cb) => cb(null, ALLOWED_MIME_TYPES.has(file.mimetype))
+}).single("image");
+
+/**
+ * Multipart "image" field → req.file (buffer + checked mimetype).
+ * 413 above IMAGE_UPLOAD_MAX_MB, 415 when it is not a supported image (by declared type and content).
+ */
+export function imageUpload(req: Request, res: Response, next: NextFunction) {
+    // multer finishes on stream events outside the request context → re-enter it for the handler
+    const context = getRequestContext();
+    const resume = (fn: () => void) => (context ? runWithRequestContext(context, fn) : fn());
+
+    upload(req, res, err => resume(() => {
+        if (err instanceof multer.MulterError) {
+            if (err.code === "LIMIT_FILE_SIZE") {
+                return res.status(413).json({ error: `Image is larger than ${MAX_UPLOAD_MB} MB` });
+            }
+            return res.status(400).json({ error: `Invalid upload: ${err.message}` });
+        }
+        if (err) {
+            return res.status(400).json({ error: `Invalid upload: ${(err as Error).message}` });
+        }
+
+        if (!req.file) {
+            return res.status(415).json({
+                error: `Send the image as multipart field "image" (${Array.from(ALLOWED_MIME_TYPES).join(", ")})`
+            });
+        }
+
+        const sniffed = sniffImageMimeType(req.file.buffer);
+        if (!sniffed || !ALLOWED_MIME_TYPES.has(sniffed)) {
+            return res.status(415).json({ error: "File content is not a supported image" });
+        }
+        req.file.mimetype = sniffed;
+        next();
+    }));
+}
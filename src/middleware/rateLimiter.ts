@@ -1,45 +1,68 @@
 import { Request, Response, NextFunction } from "express";
+import { checkRateLimit, formatSlackRateLimitMessage, RateLimitDecision, RateLimitSubject } from "../rateLimits";
+import { rateLimitRejections } from "../metrics";
+import { isScopeCommand } from "../channelScopes";
+import { logger } from "../utils/logger";
 
-const userRateLimit: Record<string, { count: number; lastReset: number }> = {};
-const LIMIT = 10; // max 10 requests
-const WINDOW_MS = 60 * 1000; // per minute
+function recordRejection(req: Request, subject: RateLimitSubject, decision: RateLimitDecision) {
+    rateLimitRejections.inc({ route: req.path, policy: decision.policy || "unknown" });
+    logger.warn("🚦 Rate limited", {
+        route: req.path,
+        policy: decision.policy,
+        user: subject.user,
+        channel: subject.channel,
+        retryAfterMs: decision.retryAfterMs
+    });
+}
 
-export function rateLimiter(req: Request, res: Response, next: NextFunction) {
-    const userId = req.body.user_id || "unknown";
-    const responseUrl = req.body.response_url;
+/**
+ * Slack slash command: user, channel and workspace buckets + daily quota.
+ * The rejection is the (ephemeral) command response — Slack needs a 200 either way.
+ * "/wiki scope" commands ask nothing → they don't spend tokens.
+ */
+export async function rateLimiter(req: Request, res: Response, next: NextFunction) {
+    if (isScopeCommand(req.body.text)) return next();
 
-    const now = Date.now();
-    const entry = userRateLimit[userId];
+    const subject: RateLimitSubject = {
+        user: req.body.user_id || "unknown",
+        channel: req.body.channel_id,
+        workspace: req.body.team_id
+    };
 
-    if (!entry) {
-        userRateLimit[userId] = { count: 1, lastReset: now };
-        return next();
-    }
+    try {
+        const decision = await checkRateLimit(subject);
+        if (decision.allowed) return next();
 
-    // Reset window
-    if (now - entry.lastReset > WINDOW_MS) {
-        userRateLimit[userId] = { count: 1, lastReset: now };
-        return next();
+        recordRejection(req, subject, decision);
+        return res.status(200).json({ response_type: "ephemeral", text: formatSlackRateLimitMessage(decision) });
+    } catch (err) {
+        // A broken limiter store must not take the bot down
+        logger.error("⚠️ Rate limit check failed, letting the request through:", err);
+        next();
     }
+}
 
-    // Check limit
-    if (entry.count >= LIMIT) {
-        // Send message to Slack
-        if (responseUrl) {
-            fetch(responseUrl, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    response_type: "ephemeral",
-                    text: "⛔ You are sending too many requests. Try again in a minute."
-                })
-            });
-        }
-
-        // MUST return 200 for Slack
-        return res.status(200).send();
-    }
+/**
+ * HTTP API (/gemini/query): per-caller bucket + daily quota, 429 with Retry-After.
+ * Callers are told apart by API key name (after requireRole), otherwise by IP.
+ */
+export async function apiRateLimiter(req: Request, res: Response, next: NextFunction) {
+    const keyName: string | undefined = res.locals.apiKey?.name;
+    const subject: RateLimitSubject = { user: keyName ? `key:${keyName}` : `http:${req.ip || "unknown"}` };
 
-    entry.count++;
-    next();
-}
\ No newline at end of file
+    try {
+        const decision = await checkRateLimit(subject);
+        if (decision.allowed) return next();
+
+        recordRejection(req, subject, decision);
+        res.setHeader("Retry-After", String(Math.ceil((decision.retryAfterMs || 0) / 1000)));
+        return res.status(429).json({
+            error: "Too many requests",
+            policy: decision.policy,
+            retryAt: decision.retryAt?.toISOString()
+        });
+    } catch (err) {
+        logger.error("⚠️ Rate limit check failed, letting the request through:", err);
+        next();
+    }
+}
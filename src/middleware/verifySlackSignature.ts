@@ -1,5 +1,6 @@
 import crypto from "crypto";
 import { Request, Response, NextFunction } from "express";
+import { logger } from "../utils/logger";
 
 const SLACK_SIGNING_SECRET = process.env.SLACK_SIGNING_SECRET!;
 
@@ -35,7 +36,7 @@ export function verifySlackSignature(req: Request, res: Response, next: NextFunc
 
         return res.status(401).send("Slack signature mismatch.");
     } catch (err) {
-        console.error("Slack signature verification failed:", err);
+        logger.error("Slack signature verification failed:", err);
         return res.status(500).send("Signature verification error.");
     }
 }
\ No newline at end of file
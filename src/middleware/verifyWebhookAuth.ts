@@ -0,0 +1,42 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+
+const WEBHOOK_SECRET = process.env.WIKI_WEBHOOK_SECRET || "";
+const WEBHOOK_USERNAME = process.env.WIKI_WEBHOOK_USERNAME || "";
+const WEBHOOK_PASSWORD = process.env.WIKI_WEBHOOK_PASSWORD || "";
+
+// Hash first so timingSafeEqual always compares equal-length buffers
+function safeEqual(a: string, b: string): boolean {
+    const hashA = crypto.createHash("sha256").update(a).digest();
+    const hashB = crypto.createHash("sha256").update(b).digest();
+    return crypto.timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Azure DevOps service hooks: basic auth (set in the subscription) or a
+ * shared secret sent as the "x-wiki-webhook-secret" HTTP header.
+ */
+export function verifyWebhookAuth(req: Request, res: Response, next: NextFunction) {
+    if (!WEBHOOK_SECRET && !(WEBHOOK_USERNAME && WEBHOOK_PASSWORD)) {
+        return res.status(503).send("Wiki webhook authentication is not configured.");
+    }
+
+    const secret = req.headers["x-wiki-webhook-secret"];
+    if (WEBHOOK_SECRET && typeof secret === "string" && safeEqual(secret, WEBHOOK_SECRET)) {
+        return next();
+    }
+
+    const authorization = req.headers.authorization || "";
+    if (WEBHOOK_USERNAME && WEBHOOK_PASSWORD && authorization.startsWith("Basic ")) {
+        const decoded = Buffer.from(authorization.slice(6), "base64").toString("utf8");
+        const separator = decoded.indexOf(":");
+        const username = decoded.slice(0, separator);
+        const password = decoded.slice(separator + 1);
+
+        if (separator > 0 && safeEqual(username, WEBHOOK_USERNAME) && safeEqual(password, WEBHOOK_PASSWORD)) {
+            return next();
+        }
+    }
+
+    return res.status(401).send("Webhook authentication failed.");
+}
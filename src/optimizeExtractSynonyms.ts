@@ -1,24 +1,60 @@
 import fs from "fs";
 import path from "path";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-const ai = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+import { getRagProvider } from "./providers";
+import { SynonymEntry } from "./synonymStore";
+import { hashContent } from "./ragManifest";
+import { logger } from "./utils/logger";
 
 // Cheaper model still
-const model = ai.getGenerativeModel({
-    model: process.env.GEMINI_MODEL_QA! || "models/gemini-2.5-flash"
-});
+const SYNONYM_MODEL = process.env.GEMINI_MODEL_QA || "gemini-2.5-flash";
 
 const WIKI_JSON_DIR = path.join(process.cwd(), "config", "wiki-files");
 const OUTPUT_FILE = path.join(process.cwd(), "config", "synonyms.json");
+// Extraction result per page, keyed by content hash → unchanged pages are not sent again
+const CACHE_FILE = path.join(process.cwd(), "config", "synonym-cache.json");
 
 // token usage (beware of costs and limits)
 const MAX_CHARS_PER_BATCH = 20000;
 
-interface SynonymEntry {
-    term: string;
-    synonyms: string[];
-    sources?: string[];
+interface WikiDoc {
+    name: string;
+    text: string;
+}
+
+interface PageExtraction {
+    hash: string;
+    entries: SynonymEntry[];        // terms found in this page (no sources; the page is the source)
+    extractedAt: string;
+}
+
+interface SynonymCache {
+    model: string;                  // another model → everything is extracted again
+    pages: Record<string, PageExtraction>;
+}
+
+// ================= CACHE =================
+
+function loadCache(): SynonymCache {
+    const empty: SynonymCache = { model: SYNONYM_MODEL, pages: {} };
+    if (!fs.existsSync(CACHE_FILE)) return empty;
+
+    try {
+        const cache: SynonymCache = JSON.parse(fs.readFileSync(CACHE_FILE, "utf8"));
+        if (cache.model !== SYNONYM_MODEL) {
+            logger.info(`♻️ Synonym model changed (${cache.model} → ${SYNONYM_MODEL}), extracting all pages again`);
+            return empty;
+        }
+        return { model: SYNONYM_MODEL, pages: cache.pages || {} };
+    } catch (err) {
+        logger.error("⚠️ Failed to read synonym cache, extracting all pages:", err);
+        return empty;
+    }
+}
+
+function saveCache(cache: SynonymCache) {
+    const tmp = `${CACHE_FILE}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(cache, null, 2), "utf8");
+    fs.renameSync(tmp, CACHE_FILE);
 }
 
 // 🧹 Remove markdown + junk syntax
@@ -33,8 +69,11 @@ function cleanWikiText(text: string): string {
         .trim();
 }
 
-async function extractBatch(batch: { name: string; text: string }[], attempt = 1): Promise<SynonymEntry[]> {
-    console.log(`🔍 Extracting batch of ${batch.length} files (attempt ${attempt})`);
+/**
+ * Terms of one batch, or null when the model failed twice (its pages are retried on the next run)
+ */
+async function extractBatch(batch: WikiDoc[], attempt = 1): Promise<SynonymEntry[] | null> {
+    logger.info(`🔍 Extracting batch of ${batch.length} files (attempt ${attempt})`);
 
     const combined = batch
         .map(b => `SOURCE: ${b.name}\n${b.text}`)
@@ -66,12 +105,14 @@ STRICT DATA CLEANUP RULES:
 ❌ DO NOT include blank terms  
 ❌ Deduplicate and lowercase all synonyms  
 ✔ Only include entries where synonyms.length > 0
+✔ "sources" lists the SOURCE names (exactly as given) of the content the term was found in
 
 OUTPUT FORMAT (STRICT JSON, NO markdown fences):
 [
   {
     "term": "string",
-    "synonyms": ["string1", "string2"]
+    "synonyms": ["string1", "string2"],
+    "sources": ["SOURCE name"]
   }
 ]
 
@@ -86,11 +127,11 @@ ${combined}
 
     try {
         const res = await Promise.race([
-            model.generateContent(prompt),
+            getRagProvider().generateText({ prompt, model: SYNONYM_MODEL, responseFormat: "json" }),
             timeout
         ]);
 
-        const raw = res.response.text().trim();
+        const raw = res.text.trim();
 
         try {
             return JSON.parse(raw);
@@ -99,21 +140,21 @@ ${combined}
             return JSON.parse(cleaned);
         }
     } catch (error: any) {
-        console.error(`⚠️ Batch request failed: ${error.message}`);
+        logger.error(`⚠️ Batch request failed: ${error.message}`);
 
         // 🔁 Retry once then skip
         if (attempt < 2) {
-            console.log("↻ Retrying batch once...");
+            logger.info("↻ Retrying batch once...");
             return extractBatch(batch, attempt + 1);
         }
 
-        console.error("❌ Giving up on this batch");
-        return []; // Avoid infinite waiting
+        logger.error("❌ Giving up on this batch");
+        return null; // Avoid infinite waiting
     }
 }
 
-function splitDocIntoChunks(doc: { name: string; text: string }) {
-    const chunks: { name: string; text: string }[] = [];
+function splitDocIntoChunks(doc: WikiDoc) {
+    const chunks: WikiDoc[] = [];
     let start = 0;
     let index = 1;
 
@@ -128,19 +169,79 @@ function splitDocIntoChunks(doc: { name: string; text: string }) {
     }
     return chunks;
 }
-export async function generateSynonyms(): Promise<SynonymEntry[] | null> {
-    try {
-        console.log("🧹 Removing old synonyms.json if exists...");
-        if (fs.existsSync(OUTPUT_FILE)) {
-            fs.unlinkSync(OUTPUT_FILE);
-            console.log("🗑️ Old synonyms.json removed.");
+// "page.json#2" (chunk of a long page) → "page.json"
+function pageOfChunk(name: string): string {
+    return name.replace(/#\d+$/, "");
+}
+
+/**
+ * Pages of the batch a returned entry came from: the SOURCE names the model gave,
+ * otherwise the pages that mention the term or a synonym, otherwise the whole batch
+ */
+function attributeEntry(entry: SynonymEntry, batch: WikiDoc[]): string[] {
+    const names = new Set(batch.map(doc => doc.name));
+    const named = (Array.isArray(entry.sources) ? entry.sources : [])
+        .map(source => String(source).replace(/^SOURCE:\s*/i, "").trim())
+        .filter(source => names.has(source));
+    if (named.length > 0) return Array.from(new Set(named.map(pageOfChunk)));
+
+    const phrases = [entry.term, ...(Array.isArray(entry.synonyms) ? entry.synonyms : [])]
+        .map(p => String(p).toLowerCase())
+        .filter(Boolean);
+    const mentioning = batch.filter(doc => {
+        const text = doc.text.toLowerCase();
+        return phrases.some(p => text.includes(p));
+    });
+    return Array.from(new Set((mentioning.length > 0 ? mentioning : batch).map(doc => pageOfChunk(doc.name))));
+}
+
+/**
+ * Merge per-page extractions into synonyms.json entries: one cluster per term, with the pages it came from
+ */
+function mergePageExtractions(pages: Record<string, PageExtraction>): SynonymEntry[] {
+    const map = new Map<string, { synonyms: Set<string>; sources: Set<string> }>();
+
+    for (const [page, extraction] of Object.entries(pages)) {
+        for (const entry of extraction.entries) {
+            if (!entry || !entry.term) continue;
+
+            const term = entry.term.trim().toLowerCase();
+            if (!term) continue;
+
+            if (!map.has(term)) map.set(term, { synonyms: new Set(), sources: new Set() });
+            const cluster = map.get(term)!;
+            cluster.sources.add(page);
+
+            if (Array.isArray(entry.synonyms)) {
+                entry.synonyms
+                    .map(s => String(s).trim().toLowerCase())
+                    .filter(s => s.length > 0 && s !== term)
+                    .forEach(s => cluster.synonyms.add(s));
+            }
         }
+    }
 
-        console.log("📂 Reading wiki files...");
+    return Array.from(map.entries())
+        .map(([term, cluster]) => ({
+            term,
+            synonyms: Array.from(cluster.synonyms),
+            sources: Array.from(cluster.sources).sort()
+        }))
+        .filter(x => Array.isArray(x.synonyms) && x.synonyms.length > 0);
+}
+
+/**
+ * Extract synonyms for new and changed pages only (content hash against config/synonym-cache.json),
+ * drop those of deleted pages, and rewrite synonyms.json from all cached pages.
+ * full=true sends every page again (a page that fails keeps its cached synonyms).
+ */
+export async function generateSynonyms(options: { full?: boolean } = {}): Promise<SynonymEntry[] | null> {
+    try {
+        logger.info("📂 Reading wiki files...");
         const files = fs.readdirSync(WIKI_JSON_DIR).filter(f => f.endsWith(".json"));
-        console.log(`📑 Found ${files.length} wiki pages.`);
+        logger.info(`📑 Found ${files.length} wiki pages.`);
 
-        const wikiDocs: { name: string; text: string }[] = [];
+        const wikiDocs: WikiDoc[] = [];
 
         for (const [i, file] of files.entries()) {
             try {
@@ -153,37 +254,73 @@ export async function generateSynonyms(): Promise<SynonymEntry[] | null> {
                 if (content.length > 20) {
                     wikiDocs.push({ name: file, text: content });
                 }
-                console.log(`➡️ Loaded ${i + 1}/${files.length}: ${file}`);
+                logger.info(`➡️ Loaded ${i + 1}/${files.length}: ${file}`);
             } catch (err) {
-                console.error(`⚠️ Failed processing file: ${file}`, err);
+                logger.error(`⚠️ Failed processing file: ${file}`, err);
             }
         }
 
-        console.log(`📚 ${wikiDocs.length} docs with real content`);
+        logger.info(`📚 ${wikiDocs.length} docs with real content`);
+
+        const cache = loadCache();
+        const hashes = new Map(wikiDocs.map(doc => [doc.name, hashContent(doc.text)]));
+
+        // Pages that were deleted (or emptied) since the last run take their synonyms with them
+        const removed = Object.keys(cache.pages).filter(page => !hashes.has(page));
+        removed.forEach(page => delete cache.pages[page]);
 
-        const results: SynonymEntry[] = [];
-        let batch: { name: string; text: string }[] = [];
+        const changed = options.full
+            ? wikiDocs
+            : wikiDocs.filter(doc => cache.pages[doc.name]?.hash !== hashes.get(doc.name));
+        logger.info(`♻️ Synonyms: ${wikiDocs.length - changed.length} pages unchanged, ${changed.length} to extract, ${removed.length} removed`);
+
+        // Results are collected per page and only cached once every chunk of the page succeeded
+        const extracted = new Map<string, SynonymEntry[]>(changed.map(doc => [doc.name, []]));
+        const chunksLeft = new Map<string, number>();
+        const failed = new Set<string>();
+
+        let batch: WikiDoc[] = [];
         let size = 0;
         let processed = 0;
 
-        for (const doc of wikiDocs) {
+        const flush = async () => {
+            const batchResult = await extractBatch(batch);
+            if (!Array.isArray(batchResult)) {
+                batch.forEach(doc => failed.add(pageOfChunk(doc.name)));
+            } else {
+                for (const entry of batchResult) {
+                    if (!entry || !entry.term) continue;
+                    const { sources: _sources, ...terms } = entry;
+                    attributeEntry(entry, batch).forEach(page => extracted.get(page)?.push(terms));
+                }
+            }
+
+            // Finished pages are stored right away, so an interrupted run keeps its progress
+            for (const doc of batch) {
+                const page = pageOfChunk(doc.name);
+                const left = (chunksLeft.get(page) || 1) - 1;
+                chunksLeft.set(page, left);
+                if (left > 0) continue;
+
+                processed++;
+                if (!failed.has(page)) {
+                    cache.pages[page] = { hash: hashes.get(page)!, entries: extracted.get(page) || [], extractedAt: new Date().toISOString() };
+                }
+            }
+            saveCache(cache);
+            logger.info(`✅ Processed ${processed}/${changed.length} docs`);
+        };
+
+        for (const doc of changed) {
             const docsToInsert =
                 doc.text.length > MAX_CHARS_PER_BATCH
                     ? splitDocIntoChunks(doc)
                     : [doc];
+            chunksLeft.set(doc.name, docsToInsert.length);
 
             for (const sub of docsToInsert) {
-                if (size + sub.text.length > MAX_CHARS_PER_BATCH) {
-                    try {
-                        const batchResult = await extractBatch(batch);
-                        results.push(...batchResult);
-                    } catch (err) {
-                        console.error("❌ Failed extracting batch:", err);
-                    }
-
-                    processed += batch.length;
-                    console.log(`✅ Processed ${processed}/${wikiDocs.length} docs`);
-
+                if (size + sub.text.length > MAX_CHARS_PER_BATCH && batch.length > 0) {
+                    await flush();
                     batch = [];
                     size = 0;
                     await new Promise(res => setTimeout(res, 5000));
@@ -196,54 +333,30 @@ export async function generateSynonyms(): Promise<SynonymEntry[] | null> {
 
         // Final batch
         if (batch.length > 0) {
-            try {
-                const batchResult = await extractBatch(batch);
-                results.push(...batchResult);
-            } catch (err) {
-                console.error("❌ Failed extracting final batch:", err);
-            }
-            processed += batch.length;
-            console.log(`🎯 Final batch processed → ${processed}/${wikiDocs.length}`);
+            await flush();
         }
+        saveCache(cache);
 
-        console.log("📊 Deduping & cleaning extracted terms...");
-
-        const map = new Map<string, Set<string>>();
-
-        for (const entry of results) {
-            if (!entry || !entry.term) continue;
-
-            const term = entry.term.trim().toLowerCase();
-            if (!term) continue;
-
-            if (!map.has(term)) map.set(term, new Set());
-
-            if (Array.isArray(entry.synonyms)) {
-                entry.synonyms
-                    .map(s => s.trim().toLowerCase())
-                    .filter(s => s.length > 0 && s !== term)
-                    .forEach(s => map.get(term)!.add(s));
-            }
+        if (failed.size > 0) {
+            logger.warn(`⚠️ ${failed.size} page(s) failed extraction; their previous synonyms are kept and they are retried next run`);
         }
 
-        const finalOutput = Array.from(map.entries())
-            .map(([term, syns]) => ({
-                term,
-                synonyms: Array.from(syns)
-            }))
-            .filter(x => Array.isArray(x.synonyms) && x.synonyms.length > 0);
+        logger.info("📊 Deduping & cleaning extracted terms...");
+        const finalOutput = mergePageExtractions(cache.pages);
 
-        fs.writeFileSync(OUTPUT_FILE, JSON.stringify(finalOutput, null, 2));
+        const tmp = `${OUTPUT_FILE}.tmp`;
+        fs.writeFileSync(tmp, JSON.stringify(finalOutput, null, 2));
+        fs.renameSync(tmp, OUTPUT_FILE);
 
-        console.log("✨ Synonym extraction complete!");
-        console.log(`📌 Total Terms: ${finalOutput.length}`);
-        console.log(`🔗 Terms w/ synonyms: ${finalOutput.filter(x => x.synonyms.length > 0).length}`);
-        console.log(`📁 Output saved at: ${OUTPUT_FILE}`);
-        console.log("🏁 Done.\n");
+        logger.info("✨ Synonym extraction complete!");
+        logger.info(`📌 Total Terms: ${finalOutput.length}`);
+        logger.info(`🔗 Terms w/ synonyms: ${finalOutput.filter(x => x.synonyms.length > 0).length}`);
+        logger.info(`📁 Output saved at: ${OUTPUT_FILE}`);
+        logger.info("🏁 Done.");
 
         return finalOutput;
     } catch (error) {
-        console.error("🚨 Fatal error in generateSynonyms():", error);
+        logger.error("🚨 Fatal error in generateSynonyms():", error);
         return null;
     }
-}
\ No newline at end of file
+}
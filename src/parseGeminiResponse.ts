@@ -6,6 +6,9 @@ export function normalizeAzureDevOpsFormatting(text: string): string {
   // Convert escaped newlines to real line breaks
   result = result.replace(/\\n/g, '\n');
 
+  // Markdown links: [text](url) -> <url|text>
+  result = result.replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<$2|$1>');
+
   // Fix cases like ** Agent** -> *Agent*
   result = result.replace(/\*\*\s*(.*?)\s*\*\*/g, '*$1*');
 
@@ -39,5 +42,8 @@ export function normalizeAzureDevOpsFormatting(text: string): string {
 
 export function parseGeminiResponse(raw: any) {
   const safe = normalizeAzureDevOpsFormatting(raw.answer?.trim() || "No answer found.");
-  return { answer: safe };
+
+  // Fallback answers already list the pages inline
+  const sources = raw.fallback ? [] : (Array.isArray(raw.sources) ? raw.sources : []);
+  return { answer: safe, sources };
 }
\ No newline at end of file
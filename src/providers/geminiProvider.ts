@@ -0,0 +1,235 @@
+// src/providers/geminiProvider.ts
+import {
+    GoogleGenAI,
+    FileSearchStore,
+    Operation,
+    UploadToFileSearchStoreOperation,
+    UploadToFileSearchStoreResponse
+} from "@google/genai";
+import {
+    RagProvider,
+    RagStore,
+    RagDocument,
+    UploadDocumentRequest,
+    GroundedGenerationRequest,
+    TextGenerationRequest,
+    ImageAnalysisRequest,
+    GenerationResult,
+    RetrievedChunk,
+    TokenUsage
+} from "./ragProvider";
+import { recordTokenUsage } from "../metrics";
+
+const UPLOAD_POLL_MS = 2000;
+// A stuck operation fails that file instead of hanging the sync job (and the queue behind it)
+const UPLOAD_TIMEOUT_MS = (Number(process.env.GEMINI_UPLOAD_TIMEOUT_SECONDS) || 300) * 1000;
+
+function toRagStore(store: FileSearchStore): RagStore {
+    return {
+        name: store.name || "",
+        displayName: store.displayName || "",
+        activeDocumentsCount: Number(store.activeDocumentsCount || 0),
+        pendingDocumentsCount: Number(store.pendingDocumentsCount || 0),
+        failedDocumentsCount: Number(store.failedDocumentsCount || 0)
+    };
+}
+
+function extractText(response: any): string {
+    const parts = response?.candidates?.[0]?.content?.parts ?? [];
+    return parts.map((p: any) => p.text || "").join("\n");
+}
+
+function extractGroundingChunks(response: any): RetrievedChunk[] {
+    const chunks = response?.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [];
+
+    return chunks
+        .map((c: any) => c.retrievedContext)
+        .filter((ctx: any) => ctx && (ctx.title || ctx.text))
+        .map((ctx: any) => ({
+            title: ctx.title || "",
+            text: ctx.text || "",
+            documentName: ctx.documentName
+        }));
+}
+
+function extractUsage(response: any): TokenUsage | undefined {
+    const usage = response?.usageMetadata;
+    if (!usage) return undefined;
+    return {
+        promptTokens: usage.promptTokenCount || 0,
+        outputTokens: usage.candidatesTokenCount || 0,
+        thoughtsTokens: usage.thoughtsTokenCount || 0,
+        toolUseTokens: usage.toolUsePromptTokenCount || 0,
+        totalTokens: usage.totalTokenCount || 0
+    };
+}
+
+/**
+ * Usage of one generateContent call, counted in the token metrics
+ */
+function trackUsage(operation: string, model: string, response: any): TokenUsage | undefined {
+    const usage = extractUsage(response);
+    if (usage) recordTokenUsage(operation, model, usage);
+    return usage;
+}
+
+export class GeminiProvider implements RagProvider {
+    readonly id = "gemini";
+    private readonly ai: GoogleGenAI;
+
+    constructor(apiKey: string) {
+        this.ai = new GoogleGenAI({ apiKey });
+    }
+
+    // ================= STORES =================
+
+    async listStores(): Promise<RagStore[]> {
+        const stores: RagStore[] = [];
+        const pager = await this.ai.fileSearchStores.list();
+        for await (const store of pager) {
+            stores.push(toRagStore(store));
+        }
+        return stores;
+    }
+
+    async getStore(storeName: string): Promise<RagStore> {
+        return toRagStore(await this.ai.fileSearchStores.get({ name: storeName }));
+    }
+
+    async createStore(displayName: string): Promise<string> {
+        const store = await this.ai.fileSearchStores.create({ config: { displayName } });
+        if (!store.name) throw new Error("Failed to create RAG store");
+        return store.name;
+    }
+
+    async deleteStore(storeName: string): Promise<void> {
+        await this.ai.fileSearchStores.delete({ name: storeName, config: { force: true } });
+    }
+
+    // ================= DOCUMENTS =================
+
+    async listDocuments(storeName: string): Promise<RagDocument[]> {
+        const docs: RagDocument[] = [];
+        const pager = await this.ai.fileSearchStores.documents.list({
+            parent: storeName,
+            config: { pageSize: 20 }
+        });
+        for await (const doc of pager) {
+            docs.push({
+                name: doc.name || "",
+                displayName: doc.displayName || "",
+                metadata: (doc.customMetadata || []).map(m => ({
+                    key: m.key || "",
+                    stringValue: m.stringValue || ""
+                }))
+            });
+        }
+        return docs;
+    }
+
+    /**
+     * Uploads are long-running operations; poll until Gemini reports the document name
+     * (at most UPLOAD_TIMEOUT_MS, then the upload counts as failed)
+     */
+    async uploadDocument(storeName: string, request: UploadDocumentRequest): Promise<string> {
+        const buffer = Buffer.from(request.content, "utf8");
+
+        const operation: UploadToFileSearchStoreOperation = await this.ai.fileSearchStores.uploadToFileSearchStore({
+            fileSearchStoreName: storeName,
+            file: new File([buffer], request.displayName, { type: "text/plain" }),
+            config: {
+                displayName: request.displayName,
+                mimeType: "text/plain",
+                customMetadata: request.metadata
+            }
+        });
+
+        const deadline = Date.now() + UPLOAD_TIMEOUT_MS;
+        let op: Operation<UploadToFileSearchStoreResponse> = operation;
+        while (!op.done) {
+            if (Date.now() >= deadline) {
+                throw new Error(`Upload of ${request.displayName} not finished after ${UPLOAD_TIMEOUT_MS / 1000}s (operation ${op.name})`);
+            }
+            await new Promise(res => setTimeout(res, UPLOAD_POLL_MS));
+            op = await this.ai.operations.get({ operation: op });
+        }
+
+        if (op.error) {
+            throw new Error(`Upload operation failed: ${JSON.stringify(op.error)}`);
+        }
+        if (!op.response?.documentName) {
+            throw new Error("Upload operation finished without a document name");
+        }
+        return op.response.documentName;
+    }
+
+    async deleteDocument(documentName: string): Promise<void> {
+        await this.ai.fileSearchStores.documents.delete({
+            name: documentName,
+            config: { force: true }
+        });
+    }
+
+    // ================= GENERATION =================
+
+    async generateGrounded(request: GroundedGenerationRequest): Promise<GenerationResult> {
+        const model = request.model || process.env.GEMINI_MODEL_QA || "gemini-2.5-flash";
+        const response = await this.ai.models.generateContent({
+            model,
+            contents: [
+                ...(request.history || []).map(turn => ({
+                    role: turn.role === "assistant" ? "model" : "user",
+                    parts: [{ text: turn.text }]
+                })),
+                { role: "user", parts: [{ text: request.prompt }] }
+            ],
+            config: {
+                systemInstruction: { parts: [{ text: request.systemInstruction }] },
+                tools: [{
+                    fileSearch: {
+                        fileSearchStoreNames: request.storeNames,
+                        metadataFilter: request.filter
+                            ? `${request.filter.key} = "${request.filter.stringValue}"`
+                            : undefined
+                    }
+                }]
+            }
+        });
+
+        return {
+            text: extractText(response),
+            groundingChunks: extractGroundingChunks(response),
+            usage: trackUsage("grounded", model, response),
+            raw: response
+        };
+    }
+
+    async generateText(request: TextGenerationRequest): Promise<GenerationResult> {
+        const model = request.model || process.env.GEMINI_MODEL_TEXT_IMAGE_GENERATION || "gemini-2.5-flash-lite";
+        const response = await this.ai.models.generateContent({
+            model,
+            contents: [{ role: "user", parts: [{ text: request.prompt }] }],
+            config: request.responseFormat === "json"
+                ? { responseMimeType: "application/json" }
+                : undefined
+        });
+
+        return { text: response.text || "", usage: trackUsage("text", model, response), raw: response };
+    }
+
+    async analyzeImage(request: ImageAnalysisRequest): Promise<GenerationResult> {
+        const model = request.model || process.env.GEMINI_MODEL_TEXT_IMAGE_GENERATION || "gemini-2.5-flash-lite";
+        const response = await this.ai.models.generateContent({
+            model,
+            contents: [{
+                role: "user",
+                parts: [
+                    { text: request.prompt },
+                    { inlineData: { mimeType: request.mimeType, data: request.data.toString("base64") } }
+                ]
+            }]
+        });
+
+        return { text: response.text || "", usage: trackUsage("image", model, response), raw: response };
+    }
+}
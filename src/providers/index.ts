@@ -0,0 +1,43 @@
+// src/providers/index.ts
+import { RagProvider } from "./ragProvider";
+import { GeminiProvider } from "./geminiProvider";
+import { LocalProvider } from "./localProvider";
+import { logger } from "../utils/logger";
+
+export * from "./ragProvider";
+export { GeminiProvider } from "./geminiProvider";
+export { LocalProvider } from "./localProvider";
+
+let provider: RagProvider | null = null;
+
+/**
+ * RAG_PROVIDER=gemini (default) | local
+ */
+export function getRagProvider(): RagProvider {
+    if (provider) return provider;
+
+    const kind = (process.env.RAG_PROVIDER || "gemini").toLowerCase();
+
+    if (kind === "local") {
+        logger.info("🧪 Using offline local RAG provider");
+        provider = new LocalProvider();
+    } else if (kind === "gemini") {
+        // API_KEY is the legacy name, kept so existing deployments keep working
+        const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+        if (!apiKey) {
+            throw new Error("GEMINI_API_KEY is not set (or set RAG_PROVIDER=local to run offline)");
+        }
+        provider = new GeminiProvider(apiKey);
+    } else {
+        throw new Error(`Unknown RAG_PROVIDER: ${kind}`);
+    }
+
+    return provider;
+}
+
+/**
+ * Override the provider (offline runs, evaluation)
+ */
+export function setRagProvider(next: RagProvider) {
+    provider = next;
+}
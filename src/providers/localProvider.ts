@@ -0,0 +1,231 @@
+// src/providers/localProvider.ts
+// Offline, deterministic stand-in for Gemini: stores live in a JSON file and
+// "grounded generation" is plain keyword retrieval over the uploaded documents.
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import {
+    RagProvider,
+    RagStore,
+    RagDocument,
+    RagMetadata,
+    UploadDocumentRequest,
+    GroundedGenerationRequest,
+    TextGenerationRequest,
+    ImageAnalysisRequest,
+    GenerationResult
+} from "./ragProvider";
+
+const DEFAULT_STATE_FILE = path.join(process.cwd(), "config", "local-rag-store.json");
+const MAX_SOURCES = 3;
+const MAX_SNIPPET_CHARS = 400;
+
+// Common English words plus the boilerplate our own query rewrite adds
+const STOPWORDS = new Set([
+    "a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "does", "for", "from",
+    "how", "i", "in", "is", "it", "me", "my", "of", "on", "or", "that", "the", "this",
+    "to", "what", "when", "where", "which", "who", "why", "with", "you",
+    "search", "document", "title", "content", "metadata", "contains", "term", "summarize"
+]);
+
+interface LocalDocument {
+    displayName: string;
+    content: string;
+    metadata: RagMetadata[];
+}
+
+interface LocalStore {
+    displayName: string;
+    documents: Record<string, LocalDocument>;
+}
+
+interface LocalState {
+    stores: Record<string, LocalStore>;
+}
+
+function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
+
+function shortHash(value: string): string {
+    return crypto.createHash("md5").update(value).digest("hex").substring(0, 12);
+}
+
+function scoreText(text: string, queryTerms: Set<string>): number {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(text)) {
+        if (queryTerms.has(token)) counts.set(token, (counts.get(token) || 0) + 1);
+    }
+
+    let score = 0;
+    for (const count of counts.values()) score += 1 + Math.log(count);
+    return score;
+}
+
+export class LocalProvider implements RagProvider {
+    readonly id = "local";
+
+    constructor(private readonly stateFile: string = DEFAULT_STATE_FILE) {}
+
+    // ================= STATE =================
+
+    private load(): LocalState {
+        if (!fs.existsSync(this.stateFile)) return { stores: {} };
+        return JSON.parse(fs.readFileSync(this.stateFile, "utf8"));
+    }
+
+    private save(state: LocalState) {
+        const dir = path.dirname(this.stateFile);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+        fs.writeFileSync(this.stateFile, JSON.stringify(state, null, 2), "utf8");
+    }
+
+    private requireStore(state: LocalState, storeName: string): LocalStore {
+        const store = state.stores[storeName];
+        if (!store) throw new Error(`Local RAG store not found: ${storeName}`);
+        return store;
+    }
+
+    // ================= STORES =================
+
+    async listStores(): Promise<RagStore[]> {
+        const state = this.load();
+        return Object.keys(state.stores).map(name => this.toRagStore(name, state.stores[name]));
+    }
+
+    async getStore(storeName: string): Promise<RagStore> {
+        return this.toRagStore(storeName, this.requireStore(this.load(), storeName));
+    }
+
+    async createStore(displayName: string): Promise<string> {
+        const state = this.load();
+        const name = `fileSearchStores/local-${shortHash(displayName)}`;
+        state.stores[name] = { displayName, documents: {} };
+        this.save(state);
+        return name;
+    }
+
+    async deleteStore(storeName: string): Promise<void> {
+        const state = this.load();
+        delete state.stores[storeName];
+        this.save(state);
+    }
+
+    private toRagStore(name: string, store: LocalStore): RagStore {
+        return {
+            name,
+            displayName: store.displayName,
+            activeDocumentsCount: Object.keys(store.documents).length,
+            pendingDocumentsCount: 0,
+            failedDocumentsCount: 0
+        };
+    }
+
+    // ================= DOCUMENTS =================
+
+    async listDocuments(storeName: string): Promise<RagDocument[]> {
+        const store = this.requireStore(this.load(), storeName);
+        return Object.entries(store.documents).map(([name, doc]) => ({
+            name,
+            displayName: doc.displayName,
+            metadata: doc.metadata
+        }));
+    }
+
+    async uploadDocument(storeName: string, request: UploadDocumentRequest): Promise<string> {
+        const state = this.load();
+        const store = this.requireStore(state, storeName);
+
+        const name = `${storeName}/documents/${shortHash(request.displayName + "\n" + request.content)}`;
+        store.documents[name] = {
+            displayName: request.displayName,
+            content: request.content,
+            metadata: request.metadata
+        };
+        this.save(state);
+        return name;
+    }
+
+    async deleteDocument(documentName: string): Promise<void> {
+        const state = this.load();
+        const storeName = documentName.split("/documents/")[0];
+        const store = state.stores[storeName];
+        if (store) {
+            delete store.documents[documentName];
+            this.save(state);
+        }
+    }
+
+    // ================= GENERATION =================
+
+    /**
+     * Extractive answer: the best matching paragraph of the top documents
+     */
+    async generateGrounded(request: GroundedGenerationRequest): Promise<GenerationResult> {
+        const state = this.load();
+
+        // No model to resolve follow-ups, so earlier user turns simply widen the query
+        const earlierQuestions = (request.history || [])
+            .filter(turn => turn.role === "user")
+            .map(turn => turn.text);
+        const queryTerms = new Set(tokenize([...earlierQuestions, request.prompt].join(" ")));
+
+        const ranked = request.storeNames
+            .flatMap(storeName => Object.entries(state.stores[storeName]?.documents || {}))
+            .filter(([, doc]) => !request.filter || doc.metadata.some(m =>
+                m.key === request.filter!.key && m.stringValue === request.filter!.stringValue
+            ))
+            .map(([name, doc]) => ({ name, doc, score: scoreText(doc.content, queryTerms) }))
+            .filter(r => r.score > 0)
+            .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+            .slice(0, MAX_SOURCES);
+
+        if (ranked.length === 0) {
+            return { text: "I could not find information about this in the wiki.", raw: { ranked: [] } };
+        }
+
+        const sections = ranked.map(({ name, doc }) => {
+            const title = doc.metadata.find(m => m.key === "wiki_title")?.stringValue || doc.displayName;
+            const paragraphs = doc.content.split(/\n\s*\n/).filter(p => p.trim().length > 0);
+            const best = paragraphs
+                .map(p => ({ p, score: scoreText(p, queryTerms) }))
+                .sort((a, b) => b.score - a.score)[0];
+            const snippet = (best?.p || doc.content).trim().substring(0, MAX_SNIPPET_CHARS);
+            return { name, displayName: doc.displayName, title, snippet };
+        });
+
+        const text = sections.map(s => `**${s.title}**\n${s.snippet}`).join("\n\n");
+
+        return {
+            text,
+            groundingChunks: sections.map(s => ({
+                title: s.displayName,
+                text: s.snippet,
+                documentName: s.name
+            })),
+            raw: { ranked: ranked.map(r => ({ name: r.name, score: r.score })) }
+        };
+    }
+
+    /**
+     * No language model offline: callers get an empty result (or an empty JSON array)
+     * and fall back to their non-LLM behaviour.
+     */
+    async generateText(request: TextGenerationRequest): Promise<GenerationResult> {
+        return { text: request.responseFormat === "json" ? "[]" : "" };
+    }
+
+    async analyzeImage(request: ImageAnalysisRequest): Promise<GenerationResult> {
+        return {
+            text: JSON.stringify({
+                summary: `Image (${request.mimeType}, ${request.data.length} bytes) analysed offline; no description available.`,
+                ocr: ""
+            }, null, 2)
+        };
+    }
+}
@@ -0,0 +1,101 @@
+// src/providers/ragProvider.ts
+// Single entry point for everything the app asks of an LLM / RAG backend.
+
+export interface RagMetadata {
+    key: string;
+    stringValue: string;
+}
+
+export interface RagStore {
+    name: string;
+    displayName: string;
+    activeDocumentsCount: number;
+    pendingDocumentsCount: number;
+    failedDocumentsCount: number;
+}
+
+export interface RagDocument {
+    name: string;
+    displayName: string;
+    metadata: RagMetadata[];
+}
+
+export interface UploadDocumentRequest {
+    content: string;
+    displayName: string;
+    metadata: RagMetadata[];
+}
+
+export interface ConversationTurn {
+    role: "user" | "assistant";
+    text: string;
+}
+
+export interface GroundedGenerationRequest {
+    storeNames: string[];
+    systemInstruction: string;
+    prompt: string;
+    history?: ConversationTurn[];   // earlier turns, oldest first
+    filter?: RagMetadata;           // only documents carrying this metadata value
+    model?: string;
+}
+
+export interface TextGenerationRequest {
+    prompt: string;
+    model?: string;
+    responseFormat?: "text" | "json";
+}
+
+export interface ImageAnalysisRequest {
+    data: Buffer;
+    mimeType: string;
+    prompt: string;
+    model?: string;
+}
+
+/**
+ * A piece of a stored document the answer was grounded on
+ */
+export interface RetrievedChunk {
+    title: string;          // document display name (the wiki file name for text documents)
+    text: string;
+    documentName?: string;
+}
+
+/**
+ * Token counts the provider reported for one call (absent for providers without a model)
+ */
+export interface TokenUsage {
+    promptTokens: number;
+    outputTokens: number;
+    thoughtsTokens: number;
+    toolUseTokens: number;
+    totalTokens: number;
+}
+
+export interface GenerationResult {
+    text: string;
+    groundingChunks?: RetrievedChunk[];
+    usage?: TokenUsage;
+    raw?: unknown;  // provider-specific response, for debug logging only
+}
+
+export interface RagProvider {
+    readonly id: string;
+
+    // Store management
+    listStores(): Promise<RagStore[]>;
+    getStore(storeName: string): Promise<RagStore>;
+    createStore(displayName: string): Promise<string>;
+    deleteStore(storeName: string): Promise<void>;
+
+    // Documents
+    listDocuments(storeName: string): Promise<RagDocument[]>;
+    uploadDocument(storeName: string, request: UploadDocumentRequest): Promise<string>;
+    deleteDocument(documentName: string): Promise<void>;
+
+    // Generation
+    generateGrounded(request: GroundedGenerationRequest): Promise<GenerationResult>;
+    generateText(request: TextGenerationRequest): Promise<GenerationResult>;
+    analyzeImage(request: ImageAnalysisRequest): Promise<GenerationResult>;
+}
@@ -0,0 +1,72 @@
+// src/ragManifest.ts
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { logger } from "./utils/logger";
+
+const MANIFEST_DIR = path.join(process.cwd(), "config", "rag-manifests");
+
+export type ManifestEntryType = "wiki-text" | "wiki-image";
+
+export interface ManifestEntry {
+    type: ManifestEntryType;
+    hash: string;           // content hash of the source file
+    documentName: string;   // Gemini document resource name (first chunk for chunked pages)
+    documentNames?: string[];   // every section chunk of a page, in order
+    sourcePath: string;     // wiki page path the document came from
+    wiki?: string;          // wiki metadata on the documents (missing: uploaded before documents were tagged)
+    uploadedAt: string;
+}
+
+export interface RagManifest {
+    store: string;                              // store the documents live in
+    entries: Record<string, ManifestEntry>;     // keyed by local file name
+}
+
+/**
+ * All store documents behind an entry (pages uploaded before chunking have one)
+ */
+export function entryDocumentNames(entry: ManifestEntry): string[] {
+    return entry.documentNames?.length ? entry.documentNames : [entry.documentName];
+}
+
+/**
+ * Hash used to decide whether a local file changed since its last upload
+ */
+export function hashContent(content: string | Buffer): string {
+    return crypto.createHash("md5").update(content).digest("hex");
+}
+
+// One manifest per store so a candidate store never overwrites the live one
+function manifestFile(storeName: string): string {
+    const id = storeName.split("/").pop() || storeName;
+    return path.join(MANIFEST_DIR, `${id.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`);
+}
+
+export function loadManifest(storeName: string): RagManifest {
+    const file = manifestFile(storeName);
+    if (!fs.existsSync(file)) return { store: storeName, entries: {} };
+
+    try {
+        const manifest: RagManifest = JSON.parse(fs.readFileSync(file, "utf8"));
+        return { store: storeName, entries: manifest.entries || {} };
+    } catch (err) {
+        logger.error("⚠️ Failed to read RAG manifest, starting fresh:", err);
+        return { store: storeName, entries: {} };
+    }
+}
+
+export function saveManifest(manifest: RagManifest) {
+    if (!fs.existsSync(MANIFEST_DIR)) {
+        fs.mkdirSync(MANIFEST_DIR, { recursive: true });
+    }
+    fs.writeFileSync(manifestFile(manifest.store), JSON.stringify(manifest, null, 2), "utf8");
+}
+
+export function deleteManifest(storeName: string) {
+    const file = manifestFile(storeName);
+    if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+        logger.info(`🧹 RAG manifest removed for ${storeName}`);
+    }
+}
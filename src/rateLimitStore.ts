@@ -0,0 +1,198 @@
+// src/rateLimitStore.ts
+// Where token-bucket state lives. RATE_LIMIT_STORE=memory (default) | file (config/rate-limit-state.json,
+// survives restarts and can be shared by replicas on the same volume: every check re-reads it under a lock file).
+// Other backends (SQLite, Redis) only need to implement RateLimitStore and be installed with setRateLimitStore().
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { logger } from "./utils/logger";
+
+const STATE_FILE = path.join(process.cwd(), "config", "rate-limit-state.json");
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const LOCK_RETRY_MS = 10;
+const LOCK_STALE_MS = 30 * 1000;        // holder crashed → lock is broken (a check holds it for milliseconds)
+const LOCK_TIMEOUT_MS = 10 * 1000;
+
+export interface BucketState {
+    tokens: number;         // tokens left at `updatedAt`
+    updatedAt: number;      // epoch ms
+}
+
+export interface RateLimitStore {
+    readonly id: string;
+    get(key: string): Promise<BucketState | undefined>;
+    // ttlMs: when the bucket would be full again anyway → the entry can be forgotten
+    set(key: string, state: BucketState, ttlMs: number): Promise<void>;
+    // Optional: run one check (reads, then writes) atomically for every process sharing the store
+    atomically?<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+interface StoredBucket extends BucketState {
+    expiresAt: number;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+    readonly id: string = "memory";
+    protected buckets = new Map<string, StoredBucket>();
+    private lastSweep = Date.now();
+
+    async get(key: string): Promise<BucketState | undefined> {
+        const bucket = this.buckets.get(key);
+        if (!bucket) return undefined;
+        if (bucket.expiresAt <= Date.now()) {
+            this.buckets.delete(key);
+            return undefined;
+        }
+        return { tokens: bucket.tokens, updatedAt: bucket.updatedAt };
+    }
+
+    async set(key: string, state: BucketState, ttlMs: number): Promise<void> {
+        this.buckets.set(key, { ...state, expiresAt: Date.now() + ttlMs });
+        this.sweep();
+    }
+
+    // Idle users/channels drop out instead of accumulating forever
+    protected sweep(force = false) {
+        const now = Date.now();
+        if (!force && now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+        this.lastSweep = now;
+        for (const [key, bucket] of this.buckets) {
+            if (bucket.expiresAt <= now) this.buckets.delete(key);
+        }
+    }
+}
+
+/**
+ * Memory store written through to a JSON file: limits and daily quotas survive restarts.
+ * Each check takes a lock file and re-reads the state, so replicas on the same volume share the buckets.
+ */
+export class FileRateLimitStore extends MemoryRateLimitStore {
+    readonly id = "file";
+    private readonly lockFile: string;
+    private lockToken: string | null = null;    // written into the lock file while this process holds it
+    private inCheck = false;
+    private dirty = false;
+
+    constructor(private readonly file = STATE_FILE) {
+        super();
+        this.lockFile = `${file}.lock`;
+        this.reload();
+    }
+
+    async atomically<T>(fn: () => Promise<T>): Promise<T> {
+        await this.lock();
+        try {
+            this.reload();
+            this.inCheck = true;
+            return await fn();
+        } finally {
+            this.inCheck = false;
+            if (this.dirty) this.save();
+            this.dirty = false;
+            this.unlock();
+        }
+    }
+
+    async set(key: string, state: BucketState, ttlMs: number): Promise<void> {
+        await super.set(key, state, ttlMs);
+        if (this.inCheck) this.dirty = true;
+        else this.save();
+    }
+
+    // Other processes may have written since → the file, not memory, is the current state
+    private reload() {
+        if (!fs.existsSync(this.file)) return;
+        try {
+            const saved: Record<string, StoredBucket> = JSON.parse(fs.readFileSync(this.file, "utf8"));
+            this.buckets = new Map(Object.entries(saved));
+            this.sweep(true);
+        } catch (err) {
+            logger.error("⚠️ Failed to read rate limit state, keeping the state in memory:", err);
+        }
+    }
+
+    private async lock() {
+        const dir = path.dirname(this.lockFile);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+
+        const token = `${process.pid}-${crypto.randomUUID()}`;
+        const deadline = Date.now() + LOCK_TIMEOUT_MS;
+        while (true) {
+            try {
+                fs.writeFileSync(this.lockFile, token, { flag: "wx" });
+                this.lockToken = token;
+                return;
+            } catch (err: any) {
+                if (err?.code !== "EEXIST") throw err;
+            }
+
+            try {
+                const holder = fs.readFileSync(this.lockFile, "utf8");
+                if (Date.now() - fs.statSync(this.lockFile).mtimeMs > LOCK_STALE_MS) {
+                    logger.warn("⚠️ Breaking stale rate limit lock", { file: this.lockFile, holder });
+                    this.removeLockIfOwnedBy(holder);
+                    continue;
+                }
+            } catch {
+                continue; // released between the calls
+            }
+
+            if (Date.now() >= deadline) {
+                throw new Error(`Rate limit state is locked (${this.lockFile})`);
+            }
+            await new Promise(res => setTimeout(res, LOCK_RETRY_MS));
+        }
+    }
+
+    // A lock that was broken as stale and taken by someone else is theirs → leave it alone
+    private unlock() {
+        if (this.lockToken) this.removeLockIfOwnedBy(this.lockToken);
+        this.lockToken = null;
+    }
+
+    private removeLockIfOwnedBy(token: string) {
+        try {
+            if (fs.readFileSync(this.lockFile, "utf8") === token) {
+                fs.rmSync(this.lockFile, { force: true });
+            }
+        } catch (err: any) {
+            if (err?.code !== "ENOENT") throw err;
+        }
+    }
+
+    private save() {
+        try {
+            const dir = path.dirname(this.file);
+            if (!fs.existsSync(dir)) {
+                fs.mkdirSync(dir, { recursive: true });
+            }
+
+            // Write then rename so a crash never leaves half a file behind (and readers never see one)
+            const tmp = `${this.file}.${process.pid}.tmp`;
+            fs.writeFileSync(tmp, JSON.stringify(Object.fromEntries(this.buckets)), "utf8");
+            fs.renameSync(tmp, this.file);
+        } catch (err) {
+            logger.error("⚠️ Failed to write rate limit state:", err);
+        }
+    }
+}
+
+let store: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+    if (store) return store;
+
+    const kind = (process.env.RATE_LIMIT_STORE || "memory").toLowerCase();
+    store = kind === "file" ? new FileRateLimitStore() : new MemoryRateLimitStore();
+    logger.info(`🚦 Rate limit store: ${store.id}`);
+    return store;
+}
+
+/**
+ * Use another backend (shared store for several replicas, tests)
+ */
+export function setRateLimitStore(next: RateLimitStore) {
+    store = next;
+}
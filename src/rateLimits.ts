@@ -0,0 +1,242 @@
+// src/rateLimits.ts
+// Token-bucket limits for questions: per user, per channel and per workspace, plus a daily quota per user.
+// Policies come from config/rate-limits.json (defaults below, reloaded when the file changes);
+// bucket state lives in the configured RateLimitStore.
+import fs from "fs";
+import path from "path";
+import { getRateLimitStore, RateLimitStore } from "./rateLimitStore";
+import { logger } from "./utils/logger";
+
+const CONFIG_FILE = path.join(process.cwd(), "config", "rate-limits.json");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BucketPolicy {
+    capacity: number;           // burst size
+    refillPerMinute: number;    // sustained rate
+}
+
+export interface RateLimitConfig {
+    user: BucketPolicy | null;          // null = no limit of this kind
+    channel: BucketPolicy | null;
+    workspace: BucketPolicy | null;
+    dailyQuota: number;                 // questions per user per UTC day; 0 = unlimited
+    channels?: Record<string, Partial<BucketPolicy>>;                                   // Slack channel id → channel policy
+    workspaces?: Record<string, Partial<BucketPolicy> & { dailyQuota?: number }>;        // Slack team id → workspace policy + quota
+}
+
+export type RateLimitPolicy = "user" | "channel" | "workspace" | "daily";
+
+export interface RateLimitSubject {
+    user: string;           // Slack user id, or the HTTP caller
+    channel?: string;
+    workspace?: string;     // Slack team id
+}
+
+export interface RateLimitDecision {
+    allowed: boolean;
+    policy?: RateLimitPolicy;   // the policy that rejected the request
+    limit?: number;             // its capacity (per minute) or daily quota
+    retryAt?: Date;
+    retryAfterMs?: number;
+}
+
+const DEFAULT_CONFIG: RateLimitConfig = {
+    user: { capacity: 10, refillPerMinute: 10 },
+    channel: { capacity: 30, refillPerMinute: 30 },
+    workspace: { capacity: 100, refillPerMinute: 100 },
+    dailyQuota: 200
+};
+
+let cachedConfig: { mtimeMs: number; config: RateLimitConfig } | null = null;
+
+// Checks run one at a time, so two requests can never both take the last token
+let queue: Promise<unknown> = Promise.resolve();
+
+// ================= CONFIG =================
+
+/**
+ * Problems in config/rate-limits.json (empty when it is fine or absent)
+ */
+export function validateRateLimitConfig(raw: any): string[] {
+    const problems: string[] = [];
+    const checkPolicy = (name: string, policy: any, partial: boolean) => {
+        if (policy === null && !partial) return;
+        if (typeof policy !== "object" || policy === null) {
+            problems.push(`${name} must be an object${partial ? "" : " or null"}`);
+            return;
+        }
+        for (const field of ["capacity", "refillPerMinute", ...(partial ? ["dailyQuota"] : [])]) {
+            if (policy[field] === undefined && partial) continue;
+            const minimum = field === "dailyQuota" ? 0 : Number.MIN_VALUE;
+            if (typeof policy[field] !== "number" || policy[field] < minimum) {
+                problems.push(`${name}.${field} must be a ${field === "dailyQuota" ? "non-negative" : "positive"} number`);
+            }
+        }
+    };
+
+    for (const name of ["user", "channel", "workspace"]) {
+        if (name in raw) checkPolicy(name, raw[name], false);
+    }
+    if ("dailyQuota" in raw && !(typeof raw.dailyQuota === "number" && raw.dailyQuota >= 0)) {
+        problems.push("dailyQuota must be a non-negative number");
+    }
+    for (const [id, policy] of Object.entries(raw.channels || {})) checkPolicy(`channels.${id}`, policy, true);
+    for (const [id, policy] of Object.entries(raw.workspaces || {})) checkPolicy(`workspaces.${id}`, policy, true);
+    return problems;
+}
+
+export function readRateLimitConfigFile(): any | null {
+    if (!fs.existsSync(CONFIG_FILE)) return null;
+    return JSON.parse(fs.readFileSync(CONFIG_FILE, "utf8"));
+}
+
+export function loadRateLimitConfig(): RateLimitConfig {
+    if (!fs.existsSync(CONFIG_FILE)) return DEFAULT_CONFIG;
+
+    const { mtimeMs } = fs.statSync(CONFIG_FILE);
+    if (cachedConfig?.mtimeMs === mtimeMs) return cachedConfig.config;
+
+    try {
+        const raw = readRateLimitConfigFile();
+        const problems = validateRateLimitConfig(raw);
+        if (problems.length > 0) throw new Error(problems.join("; "));
+
+        const config: RateLimitConfig = { ...DEFAULT_CONFIG, ...raw };
+        cachedConfig = { mtimeMs, config };
+        logger.info("🚦 Rate limits loaded from config/rate-limits.json");
+        return config;
+    } catch (err: any) {
+        // Keep the last good limits rather than dropping all protection
+        logger.error(`⚠️ Invalid config/rate-limits.json, using ${cachedConfig ? "previous" : "default"} limits:`, err?.message || err);
+        return cachedConfig?.config || DEFAULT_CONFIG;
+    }
+}
+
+// ================= BUCKETS =================
+
+interface BucketCheck {
+    policy: RateLimitPolicy;
+    key: string;
+    capacity: number;
+    ratePerMs: number;      // 0 for the daily quota (no refill until the next day)
+    resetsAt?: number;      // daily quota: start of the next UTC day
+}
+
+function bucketChecks(subject: RateLimitSubject, config: RateLimitConfig, now: number): BucketCheck[] {
+    const checks: BucketCheck[] = [];
+    const add = (policy: RateLimitPolicy, key: string, bucket: BucketPolicy | null) => {
+        if (!bucket) return;
+        checks.push({ policy, key, capacity: bucket.capacity, ratePerMs: bucket.refillPerMinute / 60000 });
+    };
+
+    const workspaceOverride = subject.workspace ? config.workspaces?.[subject.workspace] : undefined;
+    const channelOverride = subject.channel ? config.channels?.[subject.channel] : undefined;
+
+    add("user", `user:${subject.workspace || "-"}:${subject.user}`, config.user);
+    if (subject.channel) {
+        add("channel", `channel:${subject.channel}`, config.channel && { ...config.channel, ...channelOverride });
+    }
+    if (subject.workspace) {
+        add("workspace", `workspace:${subject.workspace}`, config.workspace && { ...config.workspace, ...workspaceOverride });
+    }
+
+    const quota = workspaceOverride?.dailyQuota ?? config.dailyQuota;
+    if (quota > 0) {
+        const day = new Date(now).toISOString().substring(0, 10);
+        checks.push({
+            policy: "daily",
+            key: `daily:${subject.workspace || "-"}:${subject.user}:${day}`,
+            capacity: quota,
+            ratePerMs: 0,
+            resetsAt: Date.parse(day) + DAY_MS
+        });
+    }
+    return checks;
+}
+
+// Tokens after refilling since the last update
+function currentTokens(check: BucketCheck, state: { tokens: number; updatedAt: number } | undefined, now: number): number {
+    if (!state) return check.capacity;
+    return Math.min(check.capacity, state.tokens + (now - state.updatedAt) * check.ratePerMs);
+}
+
+function waitForToken(check: BucketCheck, tokens: number, now: number): number {
+    if (check.resetsAt) return check.resetsAt - now;
+    return Math.ceil((1 - tokens) / check.ratePerMs);
+}
+
+function timeUntilFull(check: BucketCheck, tokens: number, now: number): number {
+    if (check.resetsAt) return check.resetsAt - now;
+    return Math.ceil((check.capacity - tokens) / check.ratePerMs);
+}
+
+/**
+ * Take one token from every bucket that applies, or none at all when any bucket is empty.
+ * A rejection names the policy that waits longest, with the time the request would pass.
+ */
+export function checkRateLimit(subject: RateLimitSubject): Promise<RateLimitDecision> {
+    const run = queue.then(() => consume(subject));
+    queue = run.catch(() => undefined);
+    return run;
+}
+
+async function consume(subject: RateLimitSubject): Promise<RateLimitDecision> {
+    const store = getRateLimitStore();
+    return store.atomically ? store.atomically(() => consumeFrom(store, subject)) : consumeFrom(store, subject);
+}
+
+async function consumeFrom(store: RateLimitStore, subject: RateLimitSubject): Promise<RateLimitDecision> {
+    const now = Date.now();
+    const checks = bucketChecks(subject, loadRateLimitConfig(), now);
+
+    const levels = await Promise.all(checks.map(async check => currentTokens(check, await store.get(check.key), now)));
+
+    let rejection: RateLimitDecision | null = null;
+    for (let i = 0; i < checks.length; i++) {
+        if (levels[i] >= 1) continue;
+        const waitMs = waitForToken(checks[i], levels[i], now);
+        if (!rejection || waitMs > rejection.retryAfterMs!) {
+            rejection = {
+                allowed: false,
+                policy: checks[i].policy,
+                limit: checks[i].capacity,
+                retryAfterMs: waitMs,
+                retryAt: new Date(now + waitMs)
+            };
+        }
+    }
+    if (rejection) return rejection;
+
+    await Promise.all(checks.map((check, i) => {
+        const tokens = levels[i] - 1;
+        return store.set(check.key, { tokens, updatedAt: now }, timeUntilFull(check, tokens, now));
+    }));
+    return { allowed: true };
+}
+
+// ================= MESSAGES =================
+
+const POLICY_SUBJECT: Record<RateLimitPolicy, string> = {
+    user: "You are",
+    channel: "This channel is",
+    workspace: "Your workspace is",
+    daily: "You are"
+};
+
+/**
+ * Rejection text for Slack; the retry time is rendered in each user's own time zone
+ */
+export function formatSlackRateLimitMessage(decision: RateLimitDecision): string {
+    const retryAt = decision.retryAt || new Date();
+    const epoch = Math.ceil(retryAt.getTime() / 1000);
+    const fallback = `${retryAt.toISOString().substring(11, 19)} UTC`;
+
+    if (decision.policy === "daily") {
+        return `⛔ You have reached your daily limit of ${decision.limit} questions. ` +
+            `Try again <!date^${epoch}^{date_short_pretty} at {time}|tomorrow at ${fallback}>.`;
+    }
+
+    const seconds = Math.max(1, Math.ceil((decision.retryAfterMs || 0) / 1000));
+    return `⛔ ${POLICY_SUBJECT[decision.policy || "user"]} sending too many requests. ` +
+        `Try again at <!date^${epoch}^{time_secs}|${fallback}> (in ${seconds}s).`;
+}
@@ -0,0 +1,181 @@
+// src/readiness.ts
+// Deep readiness check for load balancers and on-call: each dependency is probed and reported on its own.
+import fs from "fs";
+import path from "path";
+import { getWikiClient } from "./azureClient";
+import { getRagProvider } from "./providers";
+import { resolveActiveStoreName } from "./geminiService";
+import { loadWikiConfigs } from "./wikiConfig";
+import { validateConfig } from "./configValidation";
+
+const apiVersion = process.env.API_VERSION || "7.1-preview.1";
+
+const FILES_DIR = path.join(process.cwd(), "config", "wiki-files");
+const SYNONYMS_FILE = path.join(process.cwd(), "config", "synonyms.json");
+
+const CHECK_TIMEOUT_MS = 5000;
+const CACHE_MS = 10 * 1000;     // probes hit Azure DevOps and Gemini → don't repeat them on every LB poll
+
+export type CheckStatus = "ok" | "warn" | "fail";
+
+export interface ReadinessCheck {
+    status: CheckStatus;
+    durationMs: number;
+    details?: Record<string, unknown>;
+    error?: string;
+}
+
+export interface ReadinessReport {
+    ready: boolean;         // false when any check failed (warnings do not count)
+    checkedAt: string;
+    checks: Record<"config" | "azureDevOps" | "gemini" | "store" | "data", ReadinessCheck>;
+}
+
+let lastReport: { at: number; report: ReadinessReport } | null = null;
+
+// A probe either returns its details or throws; "warn" is signalled through the returned status
+type Probe = () => Promise<{ status?: CheckStatus; details?: Record<string, unknown> }>;
+
+async function runCheck(probe: Probe): Promise<ReadinessCheck> {
+    const started = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS}ms`)), CHECK_TIMEOUT_MS);
+        });
+        const { status = "ok", details } = await Promise.race([probe(), timeout]);
+        return { status, durationMs: Date.now() - started, details };
+    } catch (err: any) {
+        const status = err?.response?.status;
+        return {
+            status: "fail",
+            durationMs: Date.now() - started,
+            error: status ? `HTTP ${status}: ${err.message}` : err?.message || String(err)
+        };
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+function ageHours(file: string): number {
+    return Math.round((Date.now() - fs.statSync(file).mtimeMs) / 36e5 * 10) / 10;
+}
+
+// ================= CHECKS =================
+
+const checkConfig: Probe = async () => {
+    const problems = validateConfig();
+    const errors = problems.filter(p => p.severity === "error");
+    if (errors.length > 0) {
+        throw new Error(errors.map(p => `${p.setting}: ${p.message}`).join("; "));
+    }
+    return {
+        status: problems.length ? "warn" : "ok",
+        details: { warnings: problems.map(p => `${p.setting}: ${p.message}`) }
+    };
+};
+
+/**
+ * Cheapest authenticated call: the wiki's own metadata (no page tree)
+ */
+const checkAzureDevOps: Probe = async () => {
+    const wikis: Record<string, string> = {};
+    const failures: string[] = [];
+
+    for (const wiki of loadWikiConfigs()) {
+        try {
+            await getWikiClient(wiki).get(`/${wiki.wikiId}`, { params: { "api-version": apiVersion } });
+            wikis[wiki.key] = "ok";
+        } catch (err: any) {
+            const status = err?.response?.status;
+            failures.push(`${wiki.key}: ${status ? `HTTP ${status}` : err?.message || err}`);
+        }
+    }
+
+    if (failures.length > 0) {
+        throw new Error(failures.join("; "));
+    }
+    return { details: { wikis } };
+};
+
+const checkGemini: Probe = async () => {
+    const provider = getRagProvider();
+    const stores = await provider.listStores();
+    return { details: { provider: provider.id, stores: stores.length } };
+};
+
+const checkStore: Probe = async () => {
+    const storeName = await resolveActiveStoreName();
+    if (!storeName) {
+        throw new Error("No active RAG store; run POST /gemini/sync");
+    }
+
+    const store = await getRagProvider().getStore(storeName);
+    const details = {
+        name: store.name,
+        displayName: store.displayName,
+        activeDocuments: store.activeDocumentsCount,
+        pendingDocuments: store.pendingDocumentsCount,
+        failedDocuments: store.failedDocumentsCount
+    };
+
+    if (store.activeDocumentsCount === 0) {
+        throw new Error(`Active store ${store.displayName} has no documents`);
+    }
+    return { status: store.failedDocumentsCount > 0 ? "warn" : "ok", details };
+};
+
+const checkData: Probe = async () => {
+    const files = fs.existsSync(FILES_DIR)
+        ? fs.readdirSync(FILES_DIR).filter(f => f.endsWith(".json"))
+        : [];
+    if (files.length === 0) {
+        throw new Error("config/wiki-files is missing or empty; run POST /wikis/export");
+    }
+
+    const newest = files
+        .map(f => path.join(FILES_DIR, f))
+        .reduce((a, b) => (fs.statSync(a).mtimeMs >= fs.statSync(b).mtimeMs ? a : b));
+
+    const synonyms = fs.existsSync(SYNONYMS_FILE);
+    return {
+        // Search works without synonyms, just with weaker recall
+        status: synonyms ? "ok" : "warn",
+        details: {
+            wikiFiles: files.length,
+            wikiFilesAgeHours: ageHours(newest),
+            synonyms: synonyms ? "present" : "missing (run POST /gemini/generateSynonyms)",
+            synonymsAgeHours: synonyms ? ageHours(SYNONYMS_FILE) : null
+        }
+    };
+};
+
+// ================= REPORT =================
+
+/**
+ * Run every check in parallel (cached for a few seconds unless `fresh`)
+ */
+export async function checkReadiness(fresh = false): Promise<ReadinessReport> {
+    if (!fresh && lastReport && Date.now() - lastReport.at < CACHE_MS) {
+        return lastReport.report;
+    }
+
+    const [config, azureDevOps, gemini, store, data] = await Promise.all([
+        runCheck(checkConfig),
+        runCheck(checkAzureDevOps),
+        runCheck(checkGemini),
+        runCheck(checkStore),
+        runCheck(checkData)
+    ]);
+
+    const checks = { config, azureDevOps, gemini, store, data };
+    const report: ReadinessReport = {
+        ready: Object.values(checks).every(c => c.status !== "fail"),
+        checkedAt: new Date().toISOString(),
+        checks
+    };
+
+    lastReport = { at: Date.now(), report };
+    return report;
+}
@@ -1,35 +1,17 @@
-import fs from "fs";
-import path from "path";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { getRagProvider, ConversationTurn, TokenUsage } from "./providers";
+import { getSynonyms, SynonymEntry } from "./synonymStore";
+import { logger } from "./utils/logger";
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+export type { SynonymEntry };
 
-const rewriteModel = genAI.getGenerativeModel({
-  model: process.env.GEMINI_MODEL_TEXT_IMAGE_GENERATION! || "models/gemini-2.5-flash"
-});
+const REWRITE_MODEL = process.env.GEMINI_MODEL_TEXT_IMAGE_GENERATION || "gemini-2.5-flash";
 
-// Where your synonyms.json lives (output from generateSynonyms)
-const SYNONYMS_FILE = path.join(process.cwd(), "config", "synonyms.json");
-
-interface SynonymEntry {
-  term: string;
-  synonyms: string[];
-}
-
-// Load synonyms once
-let synonymEntries: SynonymEntry[] = [];
-if (fs.existsSync(SYNONYMS_FILE)) {
-  synonymEntries = JSON.parse(fs.readFileSync(SYNONYMS_FILE, "utf8"));
-  console.log(`🔍 Loaded ${synonymEntries.length} synonym entries for query rewrite.`);
-} else {
-  console.warn("⚠️ synonyms.json not found; rewrite will work without synonym guidance.");
-}
-
-function findRelevantSynonyms(question: string): SynonymEntry[] {
+export function findRelevantSynonyms(question: string): SynonymEntry[] {
   const lowerQ = question.toLowerCase();
   const matches: SynonymEntry[] = [];
 
-  for (const entry of synonymEntries) {
+  // Generated synonyms.json + curated overrides (re-read when either changes)
+  for (const entry of getSynonyms()) {
     const term = entry.term.toLowerCase();
 
     const termHit = lowerQ.includes(term);
@@ -55,11 +37,42 @@ function buildSynonymContext(entries: SynonymEntry[]): string {
     })
     .join("\n");
 }
+function buildHistoryContext(history: ConversationTurn[]): string {
+  if (!history.length) return "";
+
+  const turns = history
+    .map(t => `${t.role === "user" ? "User" : "Assistant"}: ${t.text}`)
+    .join("\n");
+
+  return `
+Conversation so far (resolve references such as "that" or "it" using it):
+${turns}
+`;
+}
+
+export interface RewriteResult {
+  query: string;
+  synonyms: SynonymEntry[];   // entries used as expansion guidance
+  usage?: TokenUsage;
+}
+
 export async function rewriteUserQuestionForFileSearch(
-  originalQuestion: string
+  originalQuestion: string,
+  history: ConversationTurn[] = []
 ): Promise<string> {
+  return (await rewriteUserQuestionWithDetails(originalQuestion, history)).query;
+}
+
+/**
+ * Same rewrite, plus what went into it (for the search debug trace)
+ */
+export async function rewriteUserQuestionWithDetails(
+  originalQuestion: string,
+  history: ConversationTurn[] = []
+): Promise<RewriteResult> {
   const relevant = findRelevantSynonyms(originalQuestion);
   const synonymContext = buildSynonymContext(relevant);
+  const historyContext = buildHistoryContext(history);
   
 //Build 
 const prompt = `
@@ -76,18 +89,25 @@ Rules:
   such as: and summarize how to <user intent>.
 - Output MUST be plain text, one sentence only.
 - NO markdown. NO JSON. NO bullet points.
+- If the question is a follow-up, the rewritten instruction MUST stand on its own.
 
 Relevant domain terms and synonyms for expansion:
 ${synonymContext}
-
+${historyContext}
 User question:
 "${originalQuestion}"
 
 Rewrite the instruction now.
 `;
 
-  const res = await rewriteModel.generateContent(prompt);
-  const rewritten = res.response.text().trim();
+  const res = await getRagProvider().generateText({ prompt, model: REWRITE_MODEL });
+  const rewritten = res.text.trim();
+  logger.info("✏️ Question rewritten for file search", {
+    synonymEntries: relevant.length,
+    historyTurns: history.length,
+    rewritten: rewritten || "(unchanged)"
+  });
 
-  return rewritten;
+  // Providers without a language model (offline) return nothing → search with the question as-is
+  return { query: rewritten || originalQuestion, synonyms: relevant, usage: res.usage };
 }
\ No newline at end of file
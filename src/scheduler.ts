@@ -0,0 +1,201 @@
+// src/scheduler.ts
+// In-process schedule for the full pipeline: export wiki → regenerate synonyms → sync to the RAG store.
+import { exportAllWikiPagesToFiles } from "./wikiService";
+import { generateSynonyms } from "./optimizeExtractSynonyms";
+import { syncWikiToGeminiRag } from "./geminiService";
+import { startJob, waitForJob, findBusyWikiJob, JobContext, JobCancelledError } from "./jobManager";
+import { parseCron, nextCronRun, CronSchedule } from "./utils/cron";
+import { logger } from "./utils/logger";
+
+const CRON_EXPRESSION = process.env.WIKI_SYNC_CRON || "";               // e.g. "0 2 * * *"
+const MAX_ATTEMPTS = Number(process.env.WIKI_SYNC_MAX_ATTEMPTS) || 3;
+const RETRY_BASE_MS = Number(process.env.WIKI_SYNC_RETRY_BASE_MS) || 60 * 1000;
+const MAX_TIMER_MS = 2 ** 31 - 1;   // setTimeout limit (~24.8 days)
+
+export interface PipelineRun {
+    trigger: "schedule" | "manual";
+    startedAt: string;
+    finishedAt?: string;
+    status: "running" | "succeeded" | "failed" | "cancelled" | "skipped";
+    attempts: number;
+    jobIds: string[];
+    error?: string;
+    result?: unknown;
+}
+
+interface SchedulerState {
+    schedule: CronSchedule | null;
+    timer: NodeJS.Timeout | null;
+    nextRunAt: Date | null;
+    currentRun: PipelineRun | null;
+    lastRun: PipelineRun | null;
+    lastSkippedAt: string | null;
+}
+
+const state: SchedulerState = {
+    schedule: null,
+    timer: null,
+    nextRunAt: null,
+    currentRun: null,
+    lastRun: null,
+    lastSkippedAt: null
+};
+
+// ================= PIPELINE =================
+
+async function runWikiPipeline(job: JobContext) {
+    job.setPhase("export");
+    const exported = await exportAllWikiPagesToFiles(job);
+    job.throwIfCancelled();
+
+    job.setPhase("synonyms");
+    const synonyms = await generateSynonyms();
+    if (!synonyms) {
+        logger.warn("⚠️ Synonym generation failed; syncing without refreshed synonyms");
+    }
+    job.throwIfCancelled();
+
+    // Page counters restart for the sync stage
+    job.update({ pagesProcessed: 0, pagesTotal: 0 });
+    const synced = await syncWikiToGeminiRag({ job, skipSynonyms: true });
+
+    return {
+        export: exported,
+        synonymTerms: synonyms?.length ?? 0,
+        sync: synced
+    };
+}
+
+// Resolves early when the job is cancelled
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise(res => {
+        const done = () => {
+            clearTimeout(timer);
+            signal.removeEventListener("abort", done);
+            res();
+        };
+        const timer = setTimeout(done, ms);
+        signal.addEventListener("abort", done);
+    });
+}
+
+/**
+ * All attempts run inside one pipeline job → the backoff between them still counts as busy,
+ * so manual exports, syncs and wiki pushes can't slip in before the next attempt
+ */
+async function runPipelineWithRetries(job: JobContext, run: PipelineRun) {
+    while (true) {
+        run.attempts++;
+        try {
+            return await runWikiPipeline(job);
+        } catch (err: any) {
+            if (err instanceof JobCancelledError || job.signal.aborted || run.attempts >= MAX_ATTEMPTS) throw err;
+
+            const delay = RETRY_BASE_MS * 2 ** (run.attempts - 1);
+            logger.warn(`↻ Pipeline attempt ${run.attempts} failed (${err?.message || err}); retrying in ${Math.round(delay / 1000)}s`);
+            job.setPhase("waiting-to-retry");
+            await sleep(delay, job.signal);
+            job.throwIfCancelled();
+        }
+    }
+}
+
+/**
+ * Run the pipeline, retrying failed attempts with exponential backoff
+ */
+export async function runPipelineNow(trigger: PipelineRun["trigger"]): Promise<PipelineRun> {
+    const busy = findBusyWikiJob();
+    if (state.currentRun || busy) {
+        state.lastSkippedAt = new Date().toISOString();
+        logger.warn(`⏭ Pipeline run skipped: ${busy ? `${busy.type} job ${busy.id}` : "previous run"} still in progress`);
+        return {
+            trigger,
+            startedAt: state.lastSkippedAt,
+            finishedAt: state.lastSkippedAt,
+            status: "skipped",
+            attempts: 0,
+            jobIds: []
+        };
+    }
+
+    const run: PipelineRun = {
+        trigger,
+        startedAt: new Date().toISOString(),
+        status: "running",
+        attempts: 0,
+        jobIds: []
+    };
+    state.currentRun = run;
+
+    try {
+        const job = startJob("pipeline", ctx => runPipelineWithRetries(ctx, run));
+        run.jobIds.push(job.id);
+        const finished = await waitForJob(job.id);
+
+        run.status = finished.status === "running" ? "failed" : finished.status;
+        run.result = finished.result;
+        run.error = finished.error;
+    } catch (err: any) {
+        run.status = "failed";
+        run.error = err?.message || String(err);
+    } finally {
+        run.finishedAt = new Date().toISOString();
+        state.lastRun = run;
+        state.currentRun = null;
+        logger.info(`🗓 Pipeline run ${run.status} after ${run.attempts} attempt(s)`);
+    }
+
+    return run;
+}
+
+// ================= SCHEDULE =================
+
+function scheduleNext() {
+    if (!state.schedule) return;
+
+    state.nextRunAt = nextCronRun(state.schedule);
+    const delay = state.nextRunAt.getTime() - Date.now();
+
+    // Long waits are chained so setTimeout never overflows
+    state.timer = setTimeout(() => {
+        if (delay > MAX_TIMER_MS) {
+            scheduleNext();
+            return;
+        }
+        runPipelineNow("schedule")
+            .catch(err => logger.error("🔥 Scheduled pipeline error:", err))
+            .finally(scheduleNext);
+    }, Math.min(delay, MAX_TIMER_MS));
+}
+
+/**
+ * Starts the schedule when WIKI_SYNC_CRON is set; otherwise the pipeline only runs on demand
+ */
+export function startScheduler() {
+    if (!CRON_EXPRESSION) {
+        logger.info("🗓 WIKI_SYNC_CRON not set; scheduled export + sync disabled");
+        return;
+    }
+
+    state.schedule = parseCron(CRON_EXPRESSION);
+    scheduleNext();
+    logger.info(`🗓 Scheduled export + sync "${CRON_EXPRESSION}", next run ${state.nextRunAt?.toISOString()}`);
+}
+
+export function stopScheduler() {
+    if (state.timer) clearTimeout(state.timer);
+    state.timer = null;
+    state.nextRunAt = null;
+}
+
+export function getSchedulerStatus() {
+    return {
+        enabled: !!state.schedule,
+        cron: state.schedule?.expression || null,
+        nextRunAt: state.nextRunAt?.toISOString() || null,
+        maxAttempts: MAX_ATTEMPTS,
+        running: state.currentRun,
+        lastRun: state.lastRun,
+        lastSkippedAt: state.lastSkippedAt
+    };
+}
@@ -0,0 +1,86 @@
+// src/searchTrace.ts
+// Explain/debug mode: what every step of one search saw and produced (synonyms, rewrite,
+// system prompt, retrieved chunks, tokens, timings), so a bad answer can be traced to its step.
+import { getRagProvider, RagMetadata, RetrievedChunk, TokenUsage } from "./providers";
+import { SynonymEntry } from "./synonymStore";
+import { logger } from "./utils/logger";
+
+export type SearchStep = "store" | "rewrite" | "answer";
+
+export interface TracedChunk extends RetrievedChunk {
+    metadata?: RagMetadata[];
+}
+
+export interface SearchTrace {
+    question: string;
+    scope?: string;
+    storeName?: string;
+    synonyms?: SynonymEntry[];          // entries findRelevantSynonyms matched
+    rewrittenQuery?: string;
+    systemPrompt?: string;
+    model?: string;
+    filter?: RagMetadata;
+    attempts: number;                   // grounded calls (an empty answer is retried once)
+    chunks?: TracedChunk[];
+    tokens: {
+        rewrite?: TokenUsage;
+        answer?: TokenUsage;            // all attempts together
+        total: number;
+    };
+    timingsMs: Partial<Record<SearchStep | "total", number>>;
+    error?: { step: SearchStep; message: string };
+    fallback?: boolean;                 // answered from the local index after the error
+}
+
+export function createSearchTrace(question: string, scope?: string): SearchTrace {
+    return { question, scope, attempts: 0, tokens: { total: 0 }, timingsMs: {} };
+}
+
+export function addTokenUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+    if (!a) return b;
+    if (!b) return a;
+    return {
+        promptTokens: a.promptTokens + b.promptTokens,
+        outputTokens: a.outputTokens + b.outputTokens,
+        thoughtsTokens: a.thoughtsTokens + b.thoughtsTokens,
+        toolUseTokens: a.toolUseTokens + b.toolUseTokens,
+        totalTokens: a.totalTokens + b.totalTokens
+    };
+}
+
+/**
+ * Run one step and record its duration (and its error, if it throws) on the trace
+ */
+export async function traceStep<T>(trace: SearchTrace | undefined, step: SearchStep, fn: () => Promise<T>): Promise<T> {
+    const started = Date.now();
+    try {
+        return await fn();
+    } catch (err: any) {
+        if (trace) trace.error = { step, message: err?.message || String(err) };
+        throw err;
+    } finally {
+        if (trace) trace.timingsMs[step] = (trace.timingsMs[step] || 0) + (Date.now() - started);
+    }
+}
+
+/**
+ * Grounding chunks carry no document metadata → look it up in the store's document list
+ * (by document name, or display name for providers that only report the title)
+ */
+export async function withChunkMetadata(storeName: string, chunks: RetrievedChunk[]): Promise<TracedChunk[]> {
+    if (chunks.length === 0) return [];
+
+    try {
+        const documents = await getRagProvider().listDocuments(storeName);
+        const byName = new Map(documents.map(doc => [doc.name, doc]));
+        const byDisplayName = new Map(documents.map(doc => [doc.displayName, doc]));
+
+        return chunks.map(chunk => {
+            const doc = (chunk.documentName && byName.get(chunk.documentName)) || byDisplayName.get(chunk.title);
+            return doc ? { ...chunk, documentName: doc.name, metadata: doc.metadata } : chunk;
+        });
+    } catch (err: any) {
+        logger.warn("⚠️ Could not load document metadata for debug trace:", err?.message || err);
+        return chunks;
+    }
+}
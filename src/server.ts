@@ -1,17 +1,45 @@
 import express, { Request, Response } from "express";
 import { getAllWikiPagesWithContent, getRawPagesResponse, getLimitedWikiPages, exportAllWikiPagesToFiles, exportLimitedWikiPagesToFiles } from "./wikiService";
+import { getLastCrawlReport } from "./wikiCrawler";
 import {
     syncWikiToGeminiRag,
     searchWiki,
     listRagDocuments,
-    analyzeImageWithGemini
+    analyzeImageWithGemini,
+    analyzeImageBuffer,
+    getActiveStoreStatus,
+    rollbackActiveStore
 } from "./geminiService";
 import { handleSlackQuestion } from "./slackController";
+import { handleSlackEvent } from "./slackEvents";
+import { handleSlackInteraction } from "./slackInteractions";
+import { buildFeedbackReport } from "./feedbackStore";
+import { startJob, getJob, listJobs, cancelJob, findBusyWikiJob } from "./jobManager";
 import { verifySlackSignature } from "./middleware/verifySlackSignature";
-import {rateLimiter} from "./middleware/rateLimiter";
+import { verifyWebhookAuth } from "./middleware/verifyWebhookAuth";
+import { handleWikiPush } from "./wikiWebhook";
+import { rateLimiter, apiRateLimiter } from "./middleware/rateLimiter";
+import { correlationId } from "./middleware/correlationId";
+import { requireRole, auditAdminOption, hasValidApiKey } from "./middleware/apiAuth";
+import { isApiAuthDisabled, roleAllows } from "./apiKeys";
+import { imageUpload } from "./middleware/imageUpload";
 import bodyParser from "body-parser";
 import qs from "querystring";
 import { generateSynonyms } from "./optimizeExtractSynonyms";
+import {
+    getSynonyms, listSynonymOverrides, getSynonymOverride, validateSynonymOverride,
+    createSynonymOverride, updateSynonymOverride, deleteSynonymOverride
+} from "./synonymStore";
+import { searchLocalIndex } from "./localSearch";
+import { loadWikiConfigs, findWikiByScope, getDefaultWiki } from "./wikiConfig";
+import { startScheduler, getSchedulerStatus, runPipelineNow } from "./scheduler";
+import { validateConfig, reportConfigProblems } from "./configValidation";
+import { checkReadiness } from "./readiness";
+import { logger } from "./utils/logger";
+import { renderMetrics, METRICS_CONTENT_TYPE } from "./metrics";
+import { getAnswerCacheStats, clearAnswerCache } from "./answerCache";
+import { readAuditLog } from "./auditLog";
+import { resolveWikiImagePath, parseImageAnalysis, buildQuestionFromImage } from "./imageAnalysis";
 
 
 const app = express();
@@ -23,6 +51,7 @@ app.post(
 
   // 1️⃣ Capture raw body for signature
   bodyParser.raw({ type: "*/*" }),
+  correlationId,
 
   // 2️⃣ Convert raw body to string, verify signature
   (req: any, res, next) => {
@@ -43,68 +72,118 @@ app.post(
   handleSlackQuestion
 );
 
+/************************************************************************************
+ * 💬 SLACK EVENTS API — app_mention + DMs, answered in threads
+ ************************************************************************************/
+app.post(
+  "/slack/events",
+  bodyParser.raw({ type: "*/*" }),
+  correlationId,
+  (req: any, res, next) => {
+    req.rawBody = req.body.toString("utf8");
+    next();
+  },
+  verifySlackSignature,
+  // Events API sends JSON (not urlencoded like slash commands)
+  (req: any, res, next) => {
+    try {
+      req.body = JSON.parse(req.rawBody);
+      next();
+    } catch {
+      res.status(400).send("Invalid JSON payload.");
+    }
+  },
+  handleSlackEvent
+);
+
+/************************************************************************************
+ * 🗳 SLACK INTERACTIVITY — feedback buttons + modal submissions
+ ************************************************************************************/
+app.post(
+  "/slack/interactions",
+  bodyParser.raw({ type: "*/*" }),
+  correlationId,
+  (req: any, res, next) => {
+    req.rawBody = req.body.toString("utf8");
+    next();
+  },
+  verifySlackSignature,
+  // payload=<json> arrives urlencoded
+  (req: any, res, next) => {
+    req.body = qs.parse(req.rawBody);
+    next();
+  },
+  handleSlackInteraction
+);
+
 /************************************************************************************
  * 🌐 NORMAL ROUTES — safe to use JSON body parser after Slack route
  ************************************************************************************/
 app.use(express.json());
 app.use(bodyParser.urlencoded({ extended: true }));
+app.use(correlationId);
 
 
-// ------------------ CUSTOM LOGGER ------------------
-import { writeLog } from "./utils/logger";
-
-// Save original console methods
-const nativeLog = console.log;
-const nativeError = console.error;
-
-console.log = (...args: any[]) => {
-    const msg = args.map(a =>
-        typeof a === "string" ? a : JSON.stringify(a)
-    ).join(" ");
-
-    writeLog(msg);
-    nativeLog(...args);
-};
-
-console.error = (...args: any[]) => {
-    const msg = args.map(a =>
-        typeof a === "string" ? a : JSON.stringify(a)
-    ).join(" ");
-
-    writeLog("ERROR: " + msg);
-    nativeError(...args);
-};
-
 // ------------------ HEALTH CHECK ------------------
 app.get("/health", (_req, res) => {
-    console.log("Health check received");
     res.json({ status: "OK", service: "Wiki RAG Server" });
 });
 
+// Readiness: Azure DevOps auth, Gemini auth, active store, exported data — 503 when any check fails.
+// Open for load balancers; only key holders may skip the cache (every fresh check calls Azure DevOps and Gemini)
+app.get("/ready", async (req, res) => {
+    try {
+        const report = await checkReadiness(req.query.fresh === "true" && hasValidApiKey(req));
+        res.status(report.ready ? 200 : 503).json(report);
+    } catch (error) {
+        res.status(503).json({ ready: false, error: (error as Error).message });
+    }
+});
+
+// Prometheus scrape endpoint: query latency, empty answers, Slack delivery, syncs, token usage
+app.get("/metrics", (_req, res) => {
+    res.type(METRICS_CONTENT_TYPE).send(renderMetrics());
+});
+
 // ------------------ WIKI EXPORT ENDPOINTS ------------------
-app.get("/wikis", async (_req: Request, res: Response) => {
+app.get("/wikis", requireRole("admin"), async (_req: Request, res: Response) => {
     try {
         const pages = await getAllWikiPagesWithContent();
         res.json(pages);
     } catch (err: any) {
-        console.error(err);
+        logger.error("🔥 Wiki request failed", err);
         res.status(500).json({ error: err.message });
     }
 });
 
-app.get("/debug-pages-raw", async (_req: Request, res: Response) => {
+app.get("/debug-pages-raw", requireRole("admin"), async (req: Request, res: Response) => {
     try {
-        const raw = await getRawPagesResponse();
+        const wiki = req.query.wiki ? findWikiByScope(String(req.query.wiki)) : getDefaultWiki();
+        if (!wiki) {
+            return res.status(400).json({ error: `Unknown wiki: ${req.query.wiki}` });
+        }
+        const raw = await getRawPagesResponse(wiki);
         res.json(raw);
     } catch (err: any) {
-        console.error(err);
+        logger.error("🔥 Wiki request failed", err);
         res.status(500).json({ error: err.message });
     }
 });
+// Wikis that are exported and searchable (config/wikis.json or the env wiki)
+app.get("/wikis/config", requireRole("reader"), (_req, res) => {
+    try {
+        res.json(loadWikiConfigs().map(({ key, name, org, project, wikiId, aliases }) =>
+            ({ key, name, org, project, wikiId, aliases: aliases || [] })
+        ));
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
 /**
  * Test endpoint - returns first 5 wiki pages only
  */
-app.get("/wikis/test", async (_req, res) => {
+app.get("/wikis/test", requireRole("admin"), async (_req, res) => {
     try {
         const pages = await getLimitedWikiPages(5);
         res.json({
@@ -112,74 +191,173 @@ app.get("/wikis/test", async (_req, res) => {
             pages
         });
     } catch (error: any) {
-        console.error(error);
+        logger.error("🔥 Wiki request failed", error);
         res.status(500).json({ error: error.message });
     }
 });
 
 /**
- * Export all wiki pages to files for Gemini File Search Tool
+ * Export all wiki pages to files for Gemini File Search Tool (background job)
  */
-app.post("/wikis/export", async (_req, res) => {
-    try {
-        const result = await exportAllWikiPagesToFiles();
-        res.json({
-            message: "Wiki pages exported successfully",
-            ...result
-        });
-    } catch (error: any) {
-        console.error(error);
-        res.status(500).json({ error: error.message });
+app.post("/wikis/export", requireRole("admin"), (_req, res) => {
+    const running = findBusyWikiJob();
+    if (running) {
+        return res.status(409).json({ error: `A ${running.type} job is already running`, jobId: running.id });
     }
+
+    const job = startJob("export", ctx => exportAllWikiPagesToFiles(ctx));
+    res.status(202).json({
+        message: "Wiki export started",
+        jobId: job.id,
+        statusUrl: `/jobs/${job.id}`
+    });
 });
 
 /**
- * TEST: Export only 5 wiki pages to files
+ * Per-page outcome of the last full export crawl (failed pages, retries, cache hits)
  */
-app.get("/wikis/export-test", async (_req, res) => {
+app.get("/wikis/export/report", requireRole("reader"), (_req, res) => {
     try {
-        const result = await exportLimitedWikiPagesToFiles(5);
-        res.json({
-            message: "Test export completed (5 pages)",
-            ...result
-        });
-    } catch (error: any) {
-        console.error(error);
-        res.status(500).json({ error: error.message });
+        const report = getLastCrawlReport();
+        if (!report) {
+            return res.status(404).json({ error: "No export has run yet" });
+        }
+        res.json(report);
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
     }
 });
 
+/**
+ * TEST: Export only 5 wiki pages to files (background job; replaces the export folder)
+ */
+app.get("/wikis/export-test", requireRole("admin"), (_req, res) => {
+    const running = findBusyWikiJob();
+    if (running) {
+        return res.status(409).json({ error: `A ${running.type} job is already running`, jobId: running.id });
+    }
 
-// ------------------ GEMINI RAG ENDPOINTS ------------------
+    const job = startJob("export", () => exportLimitedWikiPagesToFiles(5));
+    res.status(202).json({
+        message: "Test export started (5 pages)",
+        jobId: job.id,
+        statusUrl: `/jobs/${job.id}`
+    });
+});
+
+
+// ------------------ LOCAL SEARCH ENDPOINT ------------------
 
-// Sync local wiki files to Gemini RAG store
-app.post("/gemini/sync", async (_req, res) => {
+// Keyword (BM25) search over the exported wiki files — page list only, no LLM
+app.get("/search", requireRole("reader"), (req, res) => {
     try {
-        const result = await syncWikiToGeminiRag();
-        res.json(result);
+        const query = String(req.query.q || "").trim();
+        if (!query) {
+            return res.status(400).json({ error: "q is required" });
+        }
+        const limit = Math.min(Number(req.query.limit) || 10, 50);
+
+        const scope = String(req.query.scope || "").trim();
+        const wiki = scope ? findWikiByScope(scope) : null;
+        if (scope && !wiki) {
+            return res.status(400).json({ error: `Unknown wiki scope: ${scope}` });
+        }
+
+        const results = searchLocalIndex(query, limit, wiki?.key);
+        res.json({ query, scope: wiki?.key, count: results.length, results });
     } catch (error) {
         res.status(500).json({ error: (error as Error).message });
     }
 });
 
+// ------------------ JOB ENDPOINTS ------------------
+
+app.get("/jobs", requireRole("reader"), (_req, res) => {
+    res.json(listJobs());
+});
+
+// Phase, pages processed / total, images, per-file errors and final result
+app.get("/jobs/:id", requireRole("reader"), (req, res) => {
+    const job = getJob(req.params.id);
+    if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+    }
+    res.json(job);
+});
+
+app.post("/jobs/:id/cancel", requireRole("admin"), (req, res) => {
+    try {
+        const job = cancelJob(req.params.id);
+        res.status(202).json({ message: "Cancellation requested", job });
+    } catch (error) {
+        res.status(409).json({ error: (error as Error).message });
+    }
+});
+
+// ------------------ GEMINI RAG ENDPOINTS ------------------
+
+// Sync local wiki files to Gemini RAG store (background job; incremental, pass full=true to rebuild)
+app.post("/gemini/sync", requireRole("admin"), (req, res) => {
+    const running = findBusyWikiJob();
+    if (running) {
+        return res.status(409).json({ error: `A ${running.type} job is already running`, jobId: running.id });
+    }
+
+    const full = req.query.full === "true" || req.body?.full === true;
+    const job = startJob("sync", ctx => syncWikiToGeminiRag({ full, job: ctx }));
+    res.status(202).json({
+        message: `${full ? "Full" : "Incremental"} sync started`,
+        jobId: job.id,
+        statusUrl: `/jobs/${job.id}`
+    });
+});
+
 
 // Query Gemini RAG knowledge base
-app.post("/gemini/query", async (req, res) => {
+app.post("/gemini/query", requireRole("reader"), apiRateLimiter, async (req, res) => {
     try {
-        const { query , customPrompt } = req.body; 
+        const { query , customPrompt, scope } = req.body; 
+        const noCache = req.query.noCache === "true" || req.body.noCache === true;
+        const debug = req.query.debug === "true" || req.body.debug === true;
         if (!query) {
             return res.status(400).json({ error: "Query is required" });
         }
-        console.log(req.body);
-        const result = await searchWiki(query,customPrompt);
+        // The trace exposes prompts and raw wiki chunks
+        if (debug) {
+            const allowed = isApiAuthDisabled() || !!(res.locals.apiKey && roleAllows(res.locals.apiKey.role, "admin"));
+            auditAdminOption(req, res, !allowed);
+            if (!allowed) {
+                return res.status(403).json({ error: "debug needs the admin role" });
+            }
+        }
+        if (scope && !findWikiByScope(scope)) {
+            return res.status(400).json({ error: `Unknown wiki scope: ${scope}` });
+        }
+        logger.debug("🔎 /gemini/query", { scope, customPrompt: !!customPrompt });
+        const result = await searchWiki(query,customPrompt, { scope, bypassCache: noCache, debug });
         res.json(result);
     } catch (error) {
         res.status(500).json({ error: (error as Error).message });
     }
 });
 
+// Answer cache: size, hit rate (+ most asked questions for admins)
+app.get("/gemini/cache", requireRole("reader"), (_req, res) => {
+    const { topQuestions, ...stats } = getAnswerCacheStats();
+
+    // The most asked questions are what colleagues typed → admins only
+    const admin = isApiAuthDisabled() || !!(res.locals.apiKey && roleAllows(res.locals.apiKey.role, "admin"));
+    res.json(admin ? { ...stats, topQuestions } : stats);
+});
+
+// Drop all cached answers (happens automatically after every sync)
+app.delete("/gemini/cache", requireRole("admin"), (_req, res) => {
+    const removed = clearAnswerCache("manual");
+    res.json({ message: "Answer cache cleared", removed });
+});
+
 // List all documents currently stored in Gemini RAG
-app.get("/gemini/documents", async (_req, res) => {
+app.get("/gemini/documents", requireRole("reader"), async (_req, res) => {
     try {
         const docs = await listRagDocuments();
         res.json(docs);
@@ -188,29 +366,216 @@ app.get("/gemini/documents", async (_req, res) => {
     }
 });
 
-// Analyze an image using Gemini's image analysis capabilities
-app.post("/gemini/analyze-image", async (req, res) => {
+// Active / previous RAG store pointer
+app.get("/gemini/store", requireRole("reader"), (_req, res) => {
+    res.json(getActiveStoreStatus());
+});
+
+// Point queries back at the previous RAG store
+app.post("/gemini/store/rollback", requireRole("admin"), (_req, res) => {
+    try {
+        const state = rollbackActiveStore();
+        res.json({ message: "Active RAG store rolled back", ...state });
+    } catch (error) {
+        res.status(409).json({ error: (error as Error).message });
+    }
+});
+
+// Analyze an exported wiki image (file name or path inside config/wiki-images only)
+app.post("/gemini/analyze-image", requireRole("admin"), async (req, res) => {
     try {
         const { imagePath } = req.body; 
         if (!imagePath) {
             return res.status(400).json({ error: "imagePath is required" });
         };
-        const result = await analyzeImageWithGemini(imagePath);
+        const resolved = resolveWikiImagePath(String(imagePath));
+        if (!resolved) {
+            return res.status(404).json({ error: "Image not found in config/wiki-images" });
+        }
+        const result = await analyzeImageWithGemini(resolved);
         res.json({ analysis: result });
     } catch (error) {
         res.status(500).json({ error: (error as Error).message });
     }   
 });   
+
+// Analyze an uploaded image (multipart field "image"), in memory
+app.post("/gemini/analyze-image/upload", requireRole("reader"), apiRateLimiter, imageUpload, async (req, res) => {
+    try {
+        const file = req.file!;
+        const result = await analyzeImageBuffer(file.buffer, file.mimetype);
+        res.json({ analysis: result, mimeType: file.mimetype, bytes: file.size });
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+// Analyze an uploaded screenshot, then search the wiki with its text (+ optional "question", "scope")
+app.post("/gemini/analyze-image/search", requireRole("reader"), apiRateLimiter, imageUpload, async (req, res) => {
+    try {
+        const { question = "", scope } = req.body;
+        if (scope && !findWikiByScope(scope)) {
+            return res.status(400).json({ error: `Unknown wiki scope: ${scope}` });
+        }
+
+        const file = req.file!;
+        const analysis = parseImageAnalysis(await analyzeImageBuffer(file.buffer, file.mimetype));
+        if (analysis.error && !analysis.ocr && !analysis.summary) {
+            return res.status(502).json({ error: `Image analysis failed: ${analysis.error}` });
+        }
+
+        const query = buildQuestionFromImage(String(question), analysis);
+        const noCache = req.query.noCache === "true" || req.body.noCache === "true";
+        const result = await searchWiki(query, "", { scope, bypassCache: noCache });
+        res.json({ ...result, query, analysis });
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 // Analyze an image using Gemini's image analysis capabilities
-app.post("/gemini/generateSynonyms", async (req, res) => {
+// Only new or changed pages are sent to the model; ?full=true extracts every page again (background job)
+app.post("/gemini/generateSynonyms", requireRole("admin"), (req, res) => {
+    const running = findBusyWikiJob();
+    if (running) {
+        return res.status(409).json({ error: `A ${running.type} job is already running`, jobId: running.id });
+    }
+
+    const full = req.query.full === "true" || req.body?.full === true;
+    const job = startJob("synonyms", async () => {
+        const entries = await generateSynonyms({ full });
+        if (!entries) throw new Error("Synonym generation failed (see logs)");
+        return { terms: entries.length };
+    });
+    res.status(202).json({
+        message: `${full ? "Full" : "Incremental"} synonym generation started`,
+        jobId: job.id,
+        statusUrl: `/jobs/${job.id}`
+    });
+});
+
+// ------------------ SYNONYM ENDPOINTS ------------------
+
+// Synonyms in effect (generated + curated overrides); ?q= filters by term or synonym
+app.get("/synonyms", requireRole("reader"), (req, res) => {
     try {
-       await generateSynonyms();
-        res.json({ result: "finish synonyms generation" });
+        const q = String(req.query.q || "").trim().toLowerCase();
+        const entries = getSynonyms().filter(e => !q || e.term.includes(q) || e.synonyms.some(s => s.includes(q)));
+        res.json({ count: entries.length, entries });
     } catch (error) {
         res.status(500).json({ error: (error as Error).message });
-    }   
-}); 
+    }
+});
+
+// Curated layer: pinned terms, blocked synonyms and added clusters (kept across regeneration)
+app.get("/synonyms/overrides", requireRole("reader"), (_req, res) => {
+    try {
+        res.json(listSynonymOverrides());
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+app.get("/synonyms/overrides/:id", requireRole("reader"), (req, res) => {
+    const override = getSynonymOverride(req.params.id);
+    if (!override) {
+        return res.status(404).json({ error: "Override not found" });
+    }
+    res.json(override);
+});
+
+app.post("/synonyms/overrides", requireRole("admin"), (req, res) => {
+    try {
+        const problems = validateSynonymOverride(req.body, listSynonymOverrides());
+        if (problems.length > 0) {
+            return res.status(400).json({ error: problems.join("; ") });
+        }
+        res.status(201).json(createSynonymOverride(req.body, res.locals.apiKey?.name));
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+app.put("/synonyms/overrides/:id", requireRole("admin"), (req, res) => {
+    try {
+        if (!getSynonymOverride(req.params.id)) {
+            return res.status(404).json({ error: "Override not found" });
+        }
+        const problems = validateSynonymOverride(req.body, listSynonymOverrides(), req.params.id);
+        if (problems.length > 0) {
+            return res.status(400).json({ error: problems.join("; ") });
+        }
+        res.json(updateSynonymOverride(req.params.id, req.body, res.locals.apiKey?.name));
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+app.delete("/synonyms/overrides/:id", requireRole("admin"), (req, res) => {
+    try {
+        if (!deleteSynonymOverride(req.params.id)) {
+            return res.status(404).json({ error: "Override not found" });
+        }
+        res.json({ deleted: req.params.id });
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+// ------------------ FEEDBACK ENDPOINTS ------------------
+
+// Worst-rated questions and the wiki pages cited in those answers
+app.get("/feedback/report", requireRole("admin"), (req, res) => {
+    try {
+        const limit = Math.min(Number(req.query.limit) || 20, 200);
+        res.json(buildFeedbackReport(limit));
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+// ------------------ AUDIT ENDPOINTS ------------------
+
+// Who called which admin route, newest first (denied attempts included)
+app.get("/audit", requireRole("admin"), (req, res) => {
+    try {
+        const limit = Math.min(Number(req.query.limit) || 100, 1000);
+        res.json(readAuditLog(limit));
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+// ------------------ WEBHOOK ENDPOINTS ------------------
+
+// Azure DevOps service hook (Code pushed) for the wiki repository → partial export + sync
+app.post("/webhooks/azure-devops/wiki", verifyWebhookAuth, handleWikiPush);
+
+// ------------------ SCHEDULER ENDPOINTS ------------------
+
+// Next scheduled export + sync and the outcome of the last run
+app.get("/scheduler", requireRole("reader"), (_req, res) => {
+    res.json(getSchedulerStatus());
+});
+
+// Run the export → synonyms → sync pipeline now (same retries as a scheduled run)
+app.post("/scheduler/run", requireRole("admin"), (_req, res) => {
+    const status = getSchedulerStatus();
+    const busy = findBusyWikiJob();
+    if (status.running || busy) {
+        return res.status(409).json({ error: "An export or sync is already running", jobId: busy?.id });
+    }
+
+    runPipelineNow("manual").catch(err => logger.error("🔥 Manual pipeline error:", err));
+    res.status(202).json({ message: "Pipeline started", status: getSchedulerStatus() });
+});
+
+// Start the server (only with a valid configuration)
+if (!reportConfigProblems(validateConfig())) {
+    process.exit(1);
+}
 
-// Start the server
 const PORT = process.env.PORT || 4000;
-app.listen(PORT, () => console.log(`🚀 Server running on port ${PORT}`));
\ No newline at end of file
+app.listen(PORT, () => {
+    logger.info(`🚀 Server running on port ${PORT}`);
+    startScheduler();
+});
\ No newline at end of file
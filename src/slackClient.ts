@@ -0,0 +1,33 @@
+// src/slackClient.ts
+import { WebClient } from "@slack/web-api";
+
+let client: WebClient | null = null;
+let botUserId: string | null = null;
+
+/**
+ * Bot-token client for the Events API (slash commands only need response_url)
+ */
+export function getSlackClient(): WebClient {
+    if (!client) {
+        const token = process.env.SLACK_BOT_TOKEN;
+        if (!token) {
+            throw new Error("SLACK_BOT_TOKEN is not set");
+        }
+        client = new WebClient(token);
+    }
+    return client;
+}
+
+// Slack user ids allowed to run "/wiki debug" and change channel scopes (SLACK_ADMIN_USERS, comma-separated)
+export function isSlackAdmin(userId?: string): boolean {
+    const admins = (process.env.SLACK_ADMIN_USERS || "").split(",").map(id => id.trim()).filter(Boolean);
+    return !!userId && admins.includes(userId);
+}
+
+export async function getBotUserId(): Promise<string> {
+    if (!botUserId) {
+        const auth = await getSlackClient().auth.test();
+        botUserId = auth.user_id || "";
+    }
+    return botUserId;
+}
@@ -1,23 +1,164 @@
 import axios from "axios";
 import { parseGeminiResponse } from "./parseGeminiResponse";
 import { searchWiki } from "./geminiService";
+import { WikiSource } from "./citations";
+import { getSlackClient, isSlackAdmin } from "./slackClient";
+import { recordAnswer } from "./feedbackStore";
+import { resolveSlackQuestion, handleScopeCommand } from "./channelScopes";
+import { logger } from "./utils/logger";
+import { slackDeliveryFailures } from "./metrics";
+import { ImageAnalysis } from "./imageAnalysis";
+import { SearchTrace } from "./searchTrace";
 const SLACK_MAX_MESSAGE_SIZE = 2800; // Slack limit is 2800 chars per message
+const SLACK_MAX_SOURCES = 5;
+const SLACK_MAX_SCREENSHOT_TEXT = 600;
+const SLACK_MAX_DEBUG_CHUNKS = 8;
+const SLACK_MAX_SECTION_TEXT = 2900;   // section blocks take 3000 chars
 
-async function sendSlackAnswer(responseUrl: string, answer: string) {
-  if (answer.length <= SLACK_MAX_MESSAGE_SIZE) {
-    // ✔ Short answer → send normally
-    return axios.post(responseUrl, {
-      response_type: "in_channel",
-      blocks: [
+function escapeSlackText(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// Clickable links to the wiki pages the answer was grounded on
+function buildSourcesBlocks(sources: WikiSource[]) {
+  if (sources.length === 0) return [];
+
+  const lines = sources.slice(0, SLACK_MAX_SOURCES).map(s => {
+    const title = escapeSlackText(s.title);
+    return s.remoteUrl ? `• <${s.remoteUrl}|${title}>` : `• ${title}`;
+  });
+
+  return [
+    { type: "divider" },
+    {
+      type: "context",
+      elements: [{ type: "mrkdwn", text: `*Sources*\n${lines.join("\n")}` }]
+    }
+  ];
+}
+
+// What was asked, so a 👍/👎 on the answer can be stored with its context
+export interface AnswerContext {
+  question: string;
+  rewrittenQuery?: string;
+  user?: string;
+  channel?: string;
+  scope?: string;   // wiki the question was restricted to
+  screenshot?: ImageAnalysis;   // what was read from images attached to the question
+}
+
+// Shown above the answer so the user can tell whether the bot read the screenshot correctly
+function buildScreenshotBlocks(screenshot?: ImageAnalysis) {
+  if (!screenshot) return [];
+
+  const ocr = screenshot.ocr.trim();
+  const clipped = ocr.length > SLACK_MAX_SCREENSHOT_TEXT ? ocr.substring(0, SLACK_MAX_SCREENSHOT_TEXT) + "…" : ocr;
+  const text = clipped
+    ? `🖼 *Text recognized in your screenshot:*\n${clipped.split("\n").map(line => `> ${escapeSlackText(line)}`).join("\n")}`
+    : `🖼 No text recognized in your screenshot${screenshot.summary ? ` — it seems to show: ${escapeSlackText(screenshot.summary)}` : ""}`;
+
+  return [{ type: "context", elements: [{ type: "mrkdwn", text }] }];
+}
+
+function buildScopeBlocks(scope?: string) {
+  if (!scope) return [];
+  return [
+    {
+      type: "context",
+      elements: [{ type: "mrkdwn", text: `🔎 Searched wiki: *${escapeSlackText(scope)}*` }]
+    }
+  ];
+}
+
+function buildFeedbackBlocks(answerId: string) {
+  return [
+    {
+      type: "actions",
+      block_id: "answer_feedback",
+      elements: [
+        {
+          type: "button",
+          action_id: "feedback_up",
+          text: { type: "plain_text", text: "👍 Helpful", emoji: true },
+          value: answerId
+        },
         {
-          type: "section",
-          text: {
-            type: "mrkdwn",
-            text: answer
-          }
+          type: "button",
+          action_id: "feedback_down",
+          text: { type: "plain_text", text: "👎 Not helpful", emoji: true },
+          value: answerId
         }
       ]
+    }
+  ];
+}
+
+// Slash commands answer through response_url; Events API answers go into a thread
+export type SlackDestination =
+  | { responseUrl: string }
+  | { channel: string; threadTs: string };
+
+async function postSlackMessage(destination: SlackDestination, text: string, blocks: any[]) {
+  const via = "responseUrl" in destination ? "response_url" : "chat.postMessage";
+  try {
+    if ("responseUrl" in destination) {
+      return await axios.post(destination.responseUrl, {
+        response_type: "in_channel",
+        blocks
+      });
+    }
+
+    return await getSlackClient().chat.postMessage({
+      channel: destination.channel,
+      thread_ts: destination.threadTs,
+      text, // notification + history fallback
+      blocks
     });
+  } catch (err) {
+    slackDeliveryFailures.inc({ via });
+    throw err;
+  }
+}
+
+export async function sendSlackAnswer(
+  destination: SlackDestination,
+  answer: string,
+  sources: WikiSource[] = [],
+  context?: AnswerContext
+) {
+  logger.info("📤 Sending Slack answer", {
+    via: "responseUrl" in destination ? "response_url" : "chat.postMessage",
+    chars: answer.length,
+    sources: sources.length
+  });
+
+  // Header (screenshot text) goes above the answer or its first part,
+  // footer (sources + feedback buttons) under the answer or its last part
+  const header = buildScreenshotBlocks(context?.screenshot);
+  let footer: any[] = [...buildSourcesBlocks(sources), ...buildScopeBlocks(context?.scope)];
+  if (context) {
+    try {
+      const { screenshot: _screenshot, ...asked } = context;
+      const record = recordAnswer({ ...asked, answer, sources });
+      footer = [...footer, ...buildFeedbackBlocks(record.id)];
+    } catch (err) {
+      logger.error("⚠️ Failed to record answer for feedback:", err);
+    }
+  }
+
+  if (answer.length <= SLACK_MAX_MESSAGE_SIZE) {
+    // ✔ Short answer → send normally
+    return postSlackMessage(destination, answer, [
+      ...header,
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: answer
+        }
+      },
+      ...footer
+    ]);
   }
 
   // ✔ Long answer → split into chunks
@@ -27,18 +168,17 @@ async function sendSlackAnswer(responseUrl: string, answer: string) {
     const num = i + 1;
     const total = chunks.length;
 
-    await axios.post(responseUrl, {
-      response_type: "in_channel",
-      blocks: [
-        {
-          type: "section",
-          text: {
-            type: "mrkdwn",
-            text: `*Part ${num} of ${total}*\n\n${chunks[i]}`
-          }
+    await postSlackMessage(destination, chunks[i], [
+      ...(num === 1 ? header : []),
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `*Part ${num} of ${total}*\n\n${chunks[i]}`
         }
-      ]
-    });
+      },
+      ...(num === total ? footer : [])
+    ]);
   }
 }
 
@@ -66,22 +206,111 @@ function splitIntoSlackChunks(text: string, maxSize = SLACK_MAX_MESSAGE_SIZE) {
   return parts;
 }
 
+// ================= DEBUG MODE =================
+
+/**
+ * "/wiki debug <question>" → { debug: true, text: "<question>" }
+ */
+function parseDebugCommand(text: string): { debug: boolean; text: string } {
+  const match = (text || "").trim().match(/^debug\s+([\s\S]+)$/i);
+  return match ? { debug: true, text: match[1].trim() } : { debug: false, text };
+}
+
+function clip(text: string, max: number) {
+  return text.length > max ? text.substring(0, max) + "…" : text;
+}
+
+// Pipeline trace as Slack blocks: one section per step
+function buildDebugBlocks(trace: SearchTrace) {
+  const section = (title: string, body: string) => ({
+    type: "section",
+    text: { type: "mrkdwn", text: clip(`*${title}*\n${body}`, SLACK_MAX_SECTION_TEXT) }
+  });
+  const code = (text: string) => "```" + text.replace(/```/g, "'''") + "```";
+
+  const synonyms = (trace.synonyms || []).map(e => `• ${escapeSlackText(e.term)}: ${escapeSlackText(e.synonyms.join(", "))}`);
+  const chunks = (trace.chunks || []).slice(0, SLACK_MAX_DEBUG_CHUNKS).map(chunk => {
+    const metadata = (chunk.metadata || [])
+      .filter(m => ["wiki", "wiki_title", "section", "chunk_index"].includes(m.key))
+      .map(m => `${m.key}=${m.stringValue}`)
+      .join(", ");
+    return `• *${escapeSlackText(chunk.title)}*${metadata ? ` (${escapeSlackText(metadata)})` : ""}\n   _${escapeSlackText(clip(chunk.text.replace(/\s+/g, " "), 150))}_`;
+  });
+  const timings = Object.entries(trace.timingsMs).map(([step, ms]) => `${step} ${ms} ms`).join(" · ");
+  const tokens = `rewrite ${trace.tokens.rewrite?.totalTokens ?? "–"} · answer ${trace.tokens.answer?.totalTokens ?? "–"} · total ${trace.tokens.total}`;
+
+  const blocks: any[] = [
+    { type: "header", text: { type: "plain_text", text: "🔬 Search debug trace", emoji: true } },
+    section("Synonyms matched", synonyms.length ? synonyms.join("\n") : "_none_"),
+    section("Rewritten query", trace.rewrittenQuery ? code(trace.rewrittenQuery) : "_not reached_"),
+    section(`System prompt (${trace.model || "?"})`, trace.systemPrompt ? code(clip(trace.systemPrompt, 800)) : "_not reached_"),
+    section(`Retrieved chunks (${trace.chunks?.length ?? 0}, ${trace.attempts} attempt(s))`, chunks.length ? chunks.join("\n") : "_none_"),
+    { type: "context", elements: [{ type: "mrkdwn", text: `⏱ ${timings}\n🔢 Tokens: ${tokens}${trace.storeName ? `\n📦 ${trace.storeName}` : ""}` }] }
+  ];
+  if (trace.error) {
+    blocks.push(section(`❌ Failed at: ${trace.error.step}`, `${escapeSlackText(trace.error.message)}${trace.fallback ? "\nAnswered from the keyword index instead." : ""}`));
+  }
+  return blocks;
+}
+
+// Only the admin who asked sees the trace
+async function sendSlackDebugTrace(responseUrl: string, trace: SearchTrace) {
+  try {
+    await axios.post(responseUrl, {
+      response_type: "ephemeral",
+      text: "🔬 Search debug trace",
+      blocks: buildDebugBlocks(trace)
+    });
+  } catch (err) {
+    slackDeliveryFailures.inc({ via: "response_url" });
+    logger.error("⚠️ Failed to send Slack debug trace:", err);
+  }
+}
+
 export async function handleSlackQuestion(req: any, res: any) {
   try {
+    // "/wiki scope <wiki>" sets the channel default instead of asking a question
+    const scopeReply = handleScopeCommand(req.body.text, req.body.channel_id, req.body.user_id);
+    if (scopeReply) {
+      return res.status(200).send(scopeReply);
+    }
+
+    // "/wiki debug <question>" → answer + pipeline trace (admins only)
+    const { debug, text } = parseDebugCommand(req.body.text);
+    if (debug && !isSlackAdmin(req.body.user_id)) {
+      return res.status(200).send("🔒 `/wiki debug` is only available to wiki admins.");
+    }
+
+    // "[platform] question" → that wiki; otherwise the channel default or all wikis
+    const { question, wiki, error } = resolveSlackQuestion(text, req.body.channel_id);
+    if (error) {
+      return res.status(200).send(error);
+    }
+
     // Acknowledge Slack
     res.status(200).send(`⏳ Processing your query: ${req.body.text}`);
 
     // 1. Query Gemini  
-    const raw = await searchWiki(req.body.text);
+    const raw = await searchWiki(question, "", { scope: wiki?.key, debug });
    
     // 2. Parse / normalize
     const parsed = parseGeminiResponse(raw);
   
     // 3. Send either normal or chunked
-    await sendSlackAnswer(req.body.response_url, parsed.answer);
+    await sendSlackAnswer({ responseUrl: req.body.response_url }, parsed.answer, parsed.sources, {
+      question,
+      rewrittenQuery: raw.rewrittenQuery,
+      user: req.body.user_id,
+      channel: req.body.channel_id,
+      scope: wiki?.name
+    });
+
+    if (raw.debug) {
+      await sendSlackDebugTrace(req.body.response_url, raw.debug);
+    }
 
   } catch (error) {
-    console.error("Slack error:", error);
+    logger.error("Slack error:", error);
     await axios.post(req.body.response_url, {
       response_type: "ephemeral",
       text: "❌ Bot failed to answer the question."
@@ -0,0 +1,209 @@
+// src/slackEvents.ts
+// Slack Events API: answers @mentions and DMs in a thread, follow-ups in that thread keep the context.
+import { searchWiki } from "./geminiService";
+import { parseGeminiResponse } from "./parseGeminiResponse";
+import { sendSlackAnswer } from "./slackController";
+import { getSlackClient, getBotUserId } from "./slackClient";
+import { ConversationTurn } from "./providers";
+import { resolveSlackQuestion } from "./channelScopes";
+import { parseScopedQuestion } from "./wikiConfig";
+import { logger } from "./utils/logger";
+import { checkRateLimit, formatSlackRateLimitMessage } from "./rateLimits";
+import { rateLimitRejections } from "./metrics";
+import { hasImageFiles, readSlackScreenshots } from "./slackFiles";
+import { buildQuestionFromImage } from "./imageAnalysis";
+
+const MAX_HISTORY_TURNS = 10;
+const EVENT_DEDUPE_MS = 10 * 60 * 1000;   // Slack retries within a few minutes
+const MAX_ACTIVE_THREADS = 5000;
+
+// event_id → first seen (Slack retries the same event when we are slow to ack)
+const seenEvents = new Map<string, number>();
+
+// "channel:thread_ts" of channel threads the bot answered in (DM threads are always handled)
+const activeThreads = new Set<string>();
+
+function isDuplicateEvent(eventId: string | undefined): boolean {
+    if (!eventId) return false;
+
+    const now = Date.now();
+    for (const [id, seenAt] of seenEvents) {
+        if (now - seenAt > EVENT_DEDUPE_MS) seenEvents.delete(id);
+    }
+
+    if (seenEvents.has(eventId)) return true;
+    seenEvents.set(eventId, now);
+    return false;
+}
+
+function rememberThread(channel: string, threadTs: string) {
+    if (activeThreads.size >= MAX_ACTIVE_THREADS) {
+        // Sets iterate in insertion order → drop the oldest thread
+        const oldest = activeThreads.values().next().value;
+        if (oldest) activeThreads.delete(oldest);
+    }
+    activeThreads.add(`${channel}:${threadTs}`);
+}
+
+function stripMentions(text: string): string {
+    return (text || "").replace(/<@[A-Z0-9]+>/g, "").trim();
+}
+
+/**
+ * Earlier messages of the thread as conversation turns (oldest first, current message excluded)
+ */
+async function loadThreadHistory(channel: string, threadTs: string, currentTs: string): Promise<ConversationTurn[]> {
+    const botUserId = await getBotUserId();
+    const replies = await getSlackClient().conversations.replies({
+        channel,
+        ts: threadTs,
+        limit: 50
+    });
+
+    const turns: ConversationTurn[] = [];
+    for (const msg of replies.messages || []) {
+        if (msg.ts === currentTs) continue;
+
+        const text = stripMentions(msg.text || "");
+        if (!text) continue;
+
+        const fromBot = !!msg.bot_id || msg.user === botUserId;
+        turns.push({ role: fromBot ? "assistant" : "user", text });
+    }
+
+    return turns.slice(-MAX_HISTORY_TURNS);
+}
+
+/**
+ * Scope of the first question in the thread ("[platform] …"), so follow-ups stay in that wiki
+ */
+function findThreadScope(history: ConversationTurn[]): string | null {
+    const first = history.find(turn => turn.role === "user");
+    return first ? parseScopedQuestion(first.text).scope : null;
+}
+
+async function answerInThread(event: any, teamId?: string) {
+    const channel = event.channel;
+    const threadTs = event.thread_ts || event.ts;
+
+    try {
+        const history = event.thread_ts
+            ? await loadThreadHistory(channel, event.thread_ts, event.ts)
+            : [];
+
+        const { question, wiki, error } = resolveSlackQuestion(
+            stripMentions(event.text),
+            channel,
+            findThreadScope(history)
+        );
+
+        if (error) {
+            await getSlackClient().chat.postMessage({ channel, thread_ts: threadTs, text: error });
+            return;
+        }
+
+        const withImages = hasImageFiles(event.files);
+
+        if (!question && !withImages) {
+            await getSlackClient().chat.postMessage({
+                channel,
+                thread_ts: threadTs,
+                text: "👋 Ask me anything about the wiki, e.g. _how do I reset my VPN?_"
+            });
+            return;
+        }
+
+        const limit = await checkRateLimit({ user: event.user || "unknown", channel, workspace: event.team || teamId });
+        if (!limit.allowed) {
+            rateLimitRejections.inc({ route: "/slack/events", policy: limit.policy || "unknown" });
+            logger.warn("🚦 Rate limited", { route: "/slack/events", policy: limit.policy, user: event.user, channel });
+            await getSlackClient().chat.postEphemeral({
+                channel,
+                user: event.user,
+                thread_ts: threadTs,
+                text: formatSlackRateLimitMessage(limit)
+            });
+            return;
+        }
+
+        // Error text from attached screenshots joins the typed question before rewriting/search
+        const screenshots = withImages ? await readSlackScreenshots(event.files) : null;
+        if (!question && !screenshots) {
+            await getSlackClient().chat.postMessage({
+                channel,
+                thread_ts: threadTs,
+                text: "🖼 I couldn't read your screenshot. Try a sharper image, or type the error message."
+            });
+            return;
+        }
+        const searchQuestion = screenshots ? buildQuestionFromImage(question, screenshots.analysis) : question;
+
+        const raw = await searchWiki(searchQuestion, "", { history, scope: wiki?.key });
+        const parsed = parseGeminiResponse(raw);
+
+        await sendSlackAnswer({ channel, threadTs }, parsed.answer, parsed.sources, {
+            question: searchQuestion,
+            screenshot: screenshots?.analysis,
+            rewrittenQuery: raw.rewrittenQuery,
+            user: event.user,
+            channel,
+            scope: wiki?.name
+        });
+        rememberThread(channel, threadTs);
+
+    } catch (error) {
+        logger.error("Slack event error:", error);
+        await getSlackClient().chat.postMessage({
+            channel,
+            thread_ts: threadTs,
+            text: "❌ Bot failed to answer the question."
+        });
+    }
+}
+
+async function processEvent(event: any, teamId?: string) {
+    // Ignore our own messages, edits, joins, etc. (file_share = message with attachments)
+    if (event.bot_id || (event.subtype && event.subtype !== "file_share")) return;
+
+    if (event.type === "app_mention") {
+        return answerInThread(event, teamId);
+    }
+
+    if (event.type !== "message") return;
+
+    if (event.channel_type === "im") {
+        return answerInThread(event, teamId);
+    }
+
+    // Channel thread follow-up without a mention (a mention arrives as app_mention too)
+    if (event.thread_ts && activeThreads.has(`${event.channel}:${event.thread_ts}`)) {
+        const botUserId = await getBotUserId();
+        if ((event.text || "").includes(`<@${botUserId}>`)) return;
+        return answerInThread(event, teamId);
+    }
+}
+
+export async function handleSlackEvent(req: any, res: any) {
+    const body = req.body || {};
+
+    // One-time handshake when the Request URL is configured in the Slack app
+    if (body.type === "url_verification") {
+        return res.status(200).json({ challenge: body.challenge });
+    }
+
+    // Acknowledge within Slack's 3 second window; the answer is posted asynchronously
+    res.status(200).send();
+
+    if (body.type !== "event_callback" || !body.event) return;
+
+    if (isDuplicateEvent(body.event_id)) {
+        logger.info(`↻ Ignoring duplicate Slack event ${body.event_id} (retry ${req.headers["x-slack-retry-num"] || 0})`);
+        return;
+    }
+
+    try {
+        await processEvent(body.event, body.team_id);
+    } catch (error) {
+        logger.error("Slack event processing failed:", error);
+    }
+}
@@ -0,0 +1,95 @@
+// src/slackFiles.ts
+// Screenshots shared with a Slack question: downloaded with the bot token (files:read scope)
+// and read by the vision model, so the error text in them can be searched for.
+import axios from "axios";
+import { getSlackClient } from "./slackClient";
+import { analyzeImageBuffer } from "./geminiService";
+import { ImageAnalysis, parseImageAnalysis, sniffImageMimeType } from "./imageAnalysis";
+import { logger } from "./utils/logger";
+
+const MAX_IMAGES = 3;
+const MAX_IMAGE_BYTES = (Number(process.env.IMAGE_UPLOAD_MAX_MB) || 10) * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 30 * 1000;
+
+export interface SlackScreenshots {
+    count: number;              // images that could be read
+    analysis: ImageAnalysis;    // OCR text and summaries of all of them, in posting order
+}
+
+// Events sometimes carry only the file id ("check_file_info"); its type is known after files.info
+function mayBeImage(file: any): boolean {
+    return String(file?.mimetype || "").startsWith("image/") || file?.file_access === "check_file_info";
+}
+
+export function hasImageFiles(files: any[] | undefined): boolean {
+    return (files || []).some(mayBeImage);
+}
+
+async function resolveFile(file: any): Promise<any> {
+    if (file?.file_access !== "check_file_info") return file;
+    const info = await getSlackClient().files.info({ file: file.id });
+    return info.file || file;
+}
+
+async function downloadSlackFile(file: any): Promise<Buffer> {
+    const url = file.url_private_download || file.url_private;
+    if (!url) throw new Error(`Slack file ${file.id} has no download URL`);
+    if (file.size > MAX_IMAGE_BYTES) throw new Error(`Slack file ${file.id} is larger than ${MAX_IMAGE_BYTES} bytes`);
+
+    const res = await axios.get(url, {
+        responseType: "arraybuffer",
+        headers: { Authorization: `Bearer ${process.env.SLACK_BOT_TOKEN}` },
+        maxContentLength: MAX_IMAGE_BYTES,
+        timeout: DOWNLOAD_TIMEOUT_MS
+    });
+    return Buffer.from(res.data);
+}
+
+/**
+ * OCR + summary of the images attached to a message (first few only); null when none could be read.
+ * A file that fails to download or analyse is skipped, the question is still answered.
+ */
+export async function readSlackScreenshots(files: any[] | undefined): Promise<SlackScreenshots | null> {
+    const analyses: ImageAnalysis[] = [];
+
+    for (const candidate of (files || []).filter(mayBeImage)) {
+        if (analyses.length >= MAX_IMAGES) break;
+
+        try {
+            const file = await resolveFile(candidate);
+            if (!String(file?.mimetype || "").startsWith("image/")) continue;
+
+            const data = await downloadSlackFile(file);
+            const mimeType = sniffImageMimeType(data);
+            if (!mimeType) {
+                // Without the files:read scope Slack returns its login page instead of the file
+                logger.warn(`⚠️ Slack file ${file.id} is not an image after download (is the files:read scope granted?)`);
+                continue;
+            }
+
+            const analysis = parseImageAnalysis(await analyzeImageBuffer(data, mimeType));
+            if (analysis.error) {
+                logger.warn(`⚠️ Could not analyse Slack file ${file.id}: ${analysis.error}`);
+                continue;
+            }
+            analyses.push(analysis);
+        } catch (err: any) {
+            logger.error(`💥 Failed to read Slack file ${candidate?.id}:`, err?.message || err);
+        }
+    }
+
+    if (analyses.length === 0) return null;
+
+    logger.info("🖼 Screenshot text recognized", {
+        images: analyses.length,
+        ocrChars: analyses.reduce((sum, a) => sum + a.ocr.length, 0)
+    });
+
+    return {
+        count: analyses.length,
+        analysis: {
+            summary: analyses.map(a => a.summary.trim()).filter(Boolean).join(" "),
+            ocr: analyses.map(a => a.ocr.trim()).filter(Boolean).join("\n")
+        }
+    };
+}
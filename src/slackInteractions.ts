@@ -0,0 +1,103 @@
+// src/slackInteractions.ts
+// Slack interactivity: 👍/👎 buttons under answers and the "what was wrong?" modal.
+import axios from "axios";
+import { recordVote, addVoteComment, Vote } from "./feedbackStore";
+import { getSlackClient } from "./slackClient";
+import { logger } from "./utils/logger";
+
+const FEEDBACK_MODAL_ID = "feedback_comment";
+
+function buildFeedbackModal(voteId: string) {
+    return {
+        type: "modal" as const,
+        callback_id: FEEDBACK_MODAL_ID,
+        private_metadata: voteId,
+        title: { type: "plain_text" as const, text: "Answer feedback" },
+        submit: { type: "plain_text" as const, text: "Send" },
+        close: { type: "plain_text" as const, text: "Skip" },
+        blocks: [
+            {
+                type: "input",
+                block_id: "comment",
+                optional: true,
+                label: { type: "plain_text", text: "What was wrong?" },
+                element: {
+                    type: "plain_text_input",
+                    action_id: "value",
+                    multiline: true,
+                    placeholder: { type: "plain_text", text: "Outdated steps, wrong page, missing information…" }
+                }
+            }
+        ]
+    };
+}
+
+async function replyEphemeral(responseUrl: string | undefined, text: string) {
+    if (!responseUrl) return;
+    await axios.post(responseUrl, {
+        response_type: "ephemeral",
+        replace_original: false,
+        text
+    });
+}
+
+async function handleBlockAction(payload: any) {
+    const action = payload.actions?.[0];
+    if (!action || (action.action_id !== "feedback_up" && action.action_id !== "feedback_down")) return;
+
+    const vote: Vote = action.action_id === "feedback_up" ? "up" : "down";
+    const record = recordVote(action.value, vote, payload.user?.id || "unknown");
+    logger.info(`🗳 Feedback ${vote} on answer ${record.answerId} from ${record.voter}`);
+
+    if (vote === "up") {
+        await replyEphemeral(payload.response_url, "🙏 Thanks for the feedback!");
+        return;
+    }
+
+    // The modal needs the bot token; without it the 👎 alone is still recorded
+    if (process.env.SLACK_BOT_TOKEN && payload.trigger_id) {
+        await getSlackClient().views.open({
+            trigger_id: payload.trigger_id,
+            view: buildFeedbackModal(record.id)
+        });
+    } else {
+        await replyEphemeral(payload.response_url, "🙏 Thanks — we will use this to fix the docs.");
+    }
+}
+
+function handleViewSubmission(payload: any) {
+    const view = payload.view;
+    if (view?.callback_id !== FEEDBACK_MODAL_ID) return;
+
+    const comment = view.state?.values?.comment?.value?.value;
+    if (comment) {
+        addVoteComment(view.private_metadata, comment);
+        logger.info(`📝 Feedback comment added to ${view.private_metadata}`);
+    }
+}
+
+export async function handleSlackInteraction(req: any, res: any) {
+    let payload: any;
+    try {
+        payload = JSON.parse(req.body.payload);
+    } catch {
+        return res.status(400).send("Invalid interaction payload.");
+    }
+
+    try {
+        if (payload.type === "view_submission") {
+            handleViewSubmission(payload);
+            return res.status(200).send(); // empty body closes the modal
+        }
+
+        // Acknowledge first; views.open must still happen within the trigger_id's 3 seconds
+        res.status(200).send();
+
+        if (payload.type === "block_actions") {
+            await handleBlockAction(payload);
+        }
+    } catch (error) {
+        logger.error("Slack interaction error:", error);
+        if (!res.headersSent) res.status(200).send();
+    }
+}
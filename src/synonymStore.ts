@@ -0,0 +1,268 @@
+// src/synonymStore.ts
+// Synonyms used for query rewriting and document metadata: the generated layer (config/synonyms.json,
+// rebuilt by generateSynonyms on every sync) with a curated layer on top (config/synonym-overrides.json,
+// managed through /synonyms/overrides) that regeneration never touches.
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { clearAnswerCache } from "./answerCache";
+import { logger } from "./utils/logger";
+
+const SYNONYMS_FILE = path.join(process.cwd(), "config", "synonyms.json");
+const OVERRIDES_FILE = path.join(process.cwd(), "config", "synonym-overrides.json");
+
+export interface SynonymEntry {
+    term: string;
+    synonyms: string[];
+    sources?: string[];
+}
+
+/**
+ * pin:   the term's synonyms are exactly `synonyms`, whatever was generated
+ * block: `synonyms` are never synonyms of the term (in either direction);
+ *        with no synonyms listed the generated term is dropped altogether
+ * add:   `synonyms` join the term's cluster (created when nothing was generated for it)
+ */
+export type SynonymOverrideKind = "pin" | "block" | "add";
+
+export const SYNONYM_OVERRIDE_KINDS: SynonymOverrideKind[] = ["pin", "block", "add"];
+
+export interface SynonymOverride {
+    id: string;
+    kind: SynonymOverrideKind;
+    term: string;
+    synonyms: string[];
+    note?: string;
+    updatedBy?: string;
+    updatedAt: string;
+}
+
+export type SynonymOverrideInput = Pick<SynonymOverride, "kind" | "term" | "synonyms" | "note">;
+
+// Files are re-read when they change on disk (regeneration, hand edits)
+interface Layer<T> {
+    mtimeMs: number;
+    value: T;
+}
+
+let generated: Layer<SynonymEntry[]> | null = null;
+let overrides: Layer<SynonymOverride[]> | null = null;
+let merged: { version: string; entries: SynonymEntry[] } | null = null;
+
+// ================= LAYERS =================
+
+function normalizeTerm(term: string): string {
+    return String(term || "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function readLayer<T>(file: string, previous: Layer<T> | null, empty: T): Layer<T> {
+    if (!fs.existsSync(file)) return { mtimeMs: 0, value: empty };
+
+    const { mtimeMs } = fs.statSync(file);
+    if (previous?.mtimeMs === mtimeMs) return previous;
+
+    try {
+        return { mtimeMs, value: JSON.parse(fs.readFileSync(file, "utf8")) };
+    } catch (err: any) {
+        // Keep the last good version rather than searching without synonyms
+        logger.error(`⚠️ Invalid ${path.basename(file)}, using ${previous ? "previous" : "no"} entries:`, err?.message || err);
+        return { mtimeMs, value: previous?.value ?? empty };
+    }
+}
+
+function loadGenerated(): SynonymEntry[] {
+    generated = readLayer<SynonymEntry[]>(SYNONYMS_FILE, generated, []);
+    return Array.isArray(generated.value) ? generated.value : [];
+}
+
+export function readSynonymOverridesFile(): any | null {
+    if (!fs.existsSync(OVERRIDES_FILE)) return null;
+    return JSON.parse(fs.readFileSync(OVERRIDES_FILE, "utf8"));
+}
+
+function loadOverrides(): SynonymOverride[] {
+    overrides = readLayer<SynonymOverride[]>(OVERRIDES_FILE, overrides, []);
+    return Array.isArray(overrides.value) ? overrides.value.filter(o => o && typeof o === "object") : [];
+}
+
+function saveOverrides(list: SynonymOverride[], reason: string) {
+    const dir = path.dirname(OVERRIDES_FILE);
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+    const tmp = `${OVERRIDES_FILE}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(list, null, 2), "utf8");
+    fs.renameSync(tmp, OVERRIDES_FILE);
+
+    overrides = { mtimeMs: fs.statSync(OVERRIDES_FILE).mtimeMs, value: list };
+    merged = null;
+    logger.info(`📘 Synonym overrides ${reason}`, { overrides: list.length });
+
+    // Cached answers were rewritten with the old synonyms
+    clearAnswerCache("synonym overrides changed");
+}
+
+// ================= MERGE =================
+
+/**
+ * Generated clusters with the curated overrides applied: blocks filter what was generated,
+ * added clusters and pins are taken as written (a pin always has the last word)
+ */
+export function mergeSynonymLayers(generatedEntries: SynonymEntry[], curated: SynonymOverride[]): SynonymEntry[] {
+    const clusters = new Map<string, { synonyms: Set<string>; sources: Set<string> }>();
+    const clusterFor = (term: string) => {
+        if (!clusters.has(term)) clusters.set(term, { synonyms: new Set(), sources: new Set() });
+        return clusters.get(term)!;
+    };
+
+    for (const entry of generatedEntries) {
+        const term = normalizeTerm(entry?.term);
+        if (!term) continue;
+
+        const cluster = clusterFor(term);
+        for (const synonym of Array.isArray(entry.synonyms) ? entry.synonyms : []) {
+            const normalized = normalizeTerm(synonym);
+            if (normalized && normalized !== term) cluster.synonyms.add(normalized);
+        }
+        (entry.sources || []).forEach(source => cluster.sources.add(source));
+    }
+
+    for (const block of curated.filter(o => o.kind === "block")) {
+        const term = normalizeTerm(block.term);
+        const blocked = (block.synonyms || []).map(normalizeTerm);
+
+        if (blocked.length === 0) {
+            clusters.delete(term);
+            clusters.forEach(cluster => cluster.synonyms.delete(term));
+            continue;
+        }
+        blocked.forEach(synonym => {
+            clusters.get(term)?.synonyms.delete(synonym);
+            clusters.get(synonym)?.synonyms.delete(term);
+        });
+    }
+
+    for (const added of curated.filter(o => o.kind === "add")) {
+        const term = normalizeTerm(added.term);
+        const cluster = clusterFor(term);
+        (added.synonyms || []).map(normalizeTerm).filter(s => s && s !== term).forEach(s => cluster.synonyms.add(s));
+    }
+
+    for (const pin of curated.filter(o => o.kind === "pin")) {
+        const term = normalizeTerm(pin.term);
+        const cluster = clusterFor(term);
+        cluster.synonyms = new Set((pin.synonyms || []).map(normalizeTerm).filter(s => s && s !== term));
+    }
+
+    return Array.from(clusters.entries())
+        .filter(([, cluster]) => cluster.synonyms.size > 0)
+        .map(([term, cluster]) => ({
+            term,
+            synonyms: Array.from(cluster.synonyms),
+            ...(cluster.sources.size > 0 ? { sources: Array.from(cluster.sources) } : {})
+        }));
+}
+
+/**
+ * Generated + curated synonyms, recomputed only when one of the two files changed
+ */
+export function getSynonyms(): SynonymEntry[] {
+    const generatedEntries = loadGenerated();
+    const curated = loadOverrides();
+
+    const version = `${generated?.mtimeMs}:${overrides?.mtimeMs}`;
+    if (merged?.version === version) return merged.entries;
+
+    merged = { version, entries: mergeSynonymLayers(generatedEntries, curated) };
+    if (merged.entries.length > 0) {
+        logger.info(`🔍 Loaded ${merged.entries.length} synonym entries (${generatedEntries.length} generated, ${curated.length} overrides).`);
+    } else {
+        logger.warn("⚠️ No synonyms (synonyms.json not found, no overrides); rewrite will work without synonym guidance.");
+    }
+    return merged.entries;
+}
+
+// ================= OVERRIDES API =================
+
+/**
+ * Problems with an override (empty when it can be saved); a second pin for the same term is refused
+ */
+export function validateSynonymOverride(input: any, existing: SynonymOverride[] = [], ignoreId?: string): string[] {
+    const problems: string[] = [];
+    if (!input || typeof input !== "object") return ["Body must be an object"];
+
+    if (!SYNONYM_OVERRIDE_KINDS.includes(input.kind)) {
+        problems.push(`kind must be one of ${SYNONYM_OVERRIDE_KINDS.join(", ")}`);
+    }
+    const term = typeof input.term === "string" ? normalizeTerm(input.term) : "";
+    if (!term) {
+        problems.push("term must be a non-empty string");
+    }
+    if (input.synonyms !== undefined && (!Array.isArray(input.synonyms) || input.synonyms.some((s: unknown) => typeof s !== "string"))) {
+        problems.push("synonyms must be an array of strings");
+    } else {
+        const synonyms: string[] = (input.synonyms || []).map(normalizeTerm).filter(Boolean);
+        if ((input.kind === "pin" || input.kind === "add") && synonyms.length === 0) {
+            problems.push(`${input.kind} overrides need at least one synonym`);
+        }
+        if (term && synonyms.includes(term)) {
+            problems.push("a term cannot be its own synonym");
+        }
+    }
+    if (input.note !== undefined && typeof input.note !== "string") {
+        problems.push("note must be a string");
+    }
+
+    const otherPin = input.kind === "pin" && existing.find(o => o.kind === "pin" && o.id !== ignoreId && normalizeTerm(o.term) === term);
+    if (otherPin) {
+        problems.push(`"${term}" is already pinned (override ${otherPin.id})`);
+    }
+    return problems;
+}
+
+function toOverride(input: SynonymOverrideInput, id: string, updatedBy?: string): SynonymOverride {
+    return {
+        id,
+        kind: input.kind,
+        term: normalizeTerm(input.term),
+        synonyms: Array.from(new Set((input.synonyms || []).map(normalizeTerm).filter(Boolean))),
+        ...(input.note?.trim() ? { note: input.note.trim() } : {}),
+        ...(updatedBy ? { updatedBy } : {}),
+        updatedAt: new Date().toISOString()
+    };
+}
+
+export function listSynonymOverrides(): SynonymOverride[] {
+    return loadOverrides();
+}
+
+export function getSynonymOverride(id: string): SynonymOverride | null {
+    return loadOverrides().find(o => o.id === id) || null;
+}
+
+/**
+ * Callers validate first (validateSynonymOverride)
+ */
+export function createSynonymOverride(input: SynonymOverrideInput, updatedBy?: string): SynonymOverride {
+    const override = toOverride(input, crypto.randomUUID(), updatedBy);
+    saveOverrides([...loadOverrides(), override], "added");
+    return override;
+}
+
+export function updateSynonymOverride(id: string, input: SynonymOverrideInput, updatedBy?: string): SynonymOverride | null {
+    const list = loadOverrides();
+    const index = list.findIndex(o => o.id === id);
+    if (index === -1) return null;
+
+    const override = toOverride(input, id, updatedBy);
+    saveOverrides(list.map((o, i) => (i === index ? override : o)), "updated");
+    return override;
+}
+
+export function deleteSynonymOverride(id: string): boolean {
+    const list = loadOverrides();
+    if (!list.some(o => o.id === id)) return false;
+
+    saveOverrides(list.filter(o => o.id !== id), "removed");
+    return true;
+}
@@ -0,0 +1,31 @@
+// src/utils/concurrency.ts
+
+/**
+ * Map `items` with at most `limit` workers in flight; results keep the input order.
+ * The first worker error rejects the whole run and stops the other workers from taking new items.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    let stopped = false;
+
+    async function run() {
+        while (!stopped && next < items.length) {
+            const index = next++;
+            try {
+                results[index] = await worker(items[index], index);
+            } catch (err) {
+                stopped = true;
+                throw err;
+            }
+        }
+    }
+
+    const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run);
+    await Promise.all(workers);
+    return results;
+}
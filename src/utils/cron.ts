@@ -0,0 +1,117 @@
+// src/utils/cron.ts
+// Minimal 5-field cron expressions: "minute hour day-of-month month day-of-week" (server local time).
+// Supports *, lists (1,15), ranges (1-5), steps (*/15, 0-30/10) and 0 or 7 for Sunday.
+
+interface CronField {
+    values: Set<number>;
+    wildcard: boolean;
+}
+
+export interface CronSchedule {
+    expression: string;
+    minute: CronField;
+    hour: CronField;
+    dayOfMonth: CronField;
+    month: CronField;
+    dayOfWeek: CronField;
+}
+
+const FIELD_RANGES: [number, number][] = [
+    [0, 59],  // minute
+    [0, 23],  // hour
+    [1, 31],  // day of month
+    [1, 12],  // month
+    [0, 7]    // day of week (0 and 7 = Sunday)
+];
+
+// Give up after this long without a match (impossible dates like 31 Feb; 29 Feb needs up to 8 years)
+const MAX_LOOKAHEAD_MS = 8 * 366 * 24 * 60 * 60 * 1000;
+
+function parseField(field: string, min: number, max: number): CronField {
+    const values = new Set<number>();
+
+    for (const part of field.split(",")) {
+        const [rangePart, stepPart] = part.split("/");
+        const step = stepPart ? Number(stepPart) : 1;
+        if (!Number.isInteger(step) || step < 1) {
+            throw new Error(`Invalid cron step: ${part}`);
+        }
+
+        let start: number;
+        let end: number;
+        if (rangePart === "*") {
+            start = min;
+            end = max;
+        } else if (rangePart.includes("-")) {
+            [start, end] = rangePart.split("-").map(Number);
+        } else {
+            start = Number(rangePart);
+            end = stepPart ? max : start;
+        }
+
+        if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+            throw new Error(`Invalid cron value "${part}" (allowed ${min}-${max})`);
+        }
+
+        for (let v = start; v <= end; v += step) values.add(v);
+    }
+
+    return { values, wildcard: field === "*" };
+}
+
+export function parseCron(expression: string): CronSchedule {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(`Cron expression must have 5 fields, got ${fields.length}: "${expression}"`);
+    }
+
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((f, i) =>
+        parseField(f, FIELD_RANGES[i][0], FIELD_RANGES[i][1])
+    );
+
+    // 7 is an alias for Sunday
+    if (dayOfWeek.values.has(7)) dayOfWeek.values.add(0);
+
+    return { expression, minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+    const domMatch = schedule.dayOfMonth.values.has(date.getDate());
+    const dowMatch = schedule.dayOfWeek.values.has(date.getDay());
+
+    // Standard cron: when both day fields are restricted, either one may match
+    if (!schedule.dayOfMonth.wildcard && !schedule.dayOfWeek.wildcard) {
+        return domMatch || dowMatch;
+    }
+    return domMatch && dowMatch;
+}
+
+/**
+ * First matching minute strictly after `from`
+ */
+export function nextCronRun(schedule: CronSchedule, from: Date = new Date()): Date {
+    const candidate = new Date(from.getTime());
+    candidate.setSeconds(0, 0);
+    candidate.setMinutes(candidate.getMinutes() + 1);
+
+    const limit = candidate.getTime() + MAX_LOOKAHEAD_MS;
+
+    // Skip whole days / hours that cannot match instead of testing every minute
+    while (candidate.getTime() <= limit) {
+        if (!schedule.month.values.has(candidate.getMonth() + 1) || !matchesDay(schedule, candidate)) {
+            candidate.setDate(candidate.getDate() + 1);
+            candidate.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.hour.values.has(candidate.getHours())) {
+            candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+            continue;
+        }
+        if (schedule.minute.values.has(candidate.getMinutes())) {
+            return candidate;
+        }
+        candidate.setMinutes(candidate.getMinutes() + 1);
+    }
+
+    throw new Error(`Cron expression never matches: "${schedule.expression}"`);
+}
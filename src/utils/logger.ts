@@ -1,14 +1,37 @@
+// src/utils/logger.ts
+// Structured logger: one JSON object per line, with level, correlation id and secrets redacted.
+// LOG_LEVEL=debug|info|warn|error (DEBUG_LOGS=1 still means debug); LOG_FORMAT=pretty for readable console output.
 import fs from "fs";
 import path from "path";
+import { getRequestContext } from "./requestContext";
 
 const LOG_DIR = path.join(process.cwd(), "logs");
 const MAX_SIZE_BYTES = 30 * 1024 * 1024; // 30 MB
+const MAX_STRING_CHARS = 4000;          // long payloads (model responses, page content) are cut
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export interface Logger {
+    debug(message: string, ...details: unknown[]): void;
+    info(message: string, ...details: unknown[]): void;
+    warn(message: string, ...details: unknown[]): void;
+    error(message: string, ...details: unknown[]): void;
+    child(fields: Record<string, unknown>): Logger;
+}
 
 // Ensure log directory exists
 if (!fs.existsSync(LOG_DIR)) {
     fs.mkdirSync(LOG_DIR, { recursive: true });
 }
 
+function configuredLevel(): LogLevel {
+    const level = (process.env.LOG_LEVEL || "").toLowerCase() as LogLevel;
+    if (LEVELS[level]) return level;
+    return process.env.DEBUG_LOGS === "1" ? "debug" : "info";
+}
+
 function getDailyLogFile() {
     const date = new Date().toISOString().substring(0, 10); // YYYY-MM-DD
     return path.join(LOG_DIR, `${date}.log`);
@@ -27,15 +50,157 @@ function rotateIfTooLarge(filePath: string) {
     }
 }
 
-export function writeLog(message: string) {
+function writeLine(line: string) {
     const filePath = getDailyLogFile();
 
     rotateIfTooLarge(filePath);
 
-    const timestamp = new Date().toISOString();
-    const line = `[${timestamp}] ${message}\n`;
-
-    fs.appendFile(filePath, line, (err) => {
-        if (err) console.error("Failed to write log:", err);
+    fs.appendFile(filePath, line + "\n", (err) => {
+        if (err) process.stderr.write(`Failed to write log: ${err.message}\n`);
     });
-}
\ No newline at end of file
+}
+
+// ================= REDACTION =================
+
+// Values of these settings never appear in a log line, wherever they show up
+const SECRET_SETTINGS = [
+    "AZ_PAT",
+    "GEMINI_API_KEY",
+    "API_KEY",
+    "SLACK_BOT_TOKEN",
+    "SLACK_SIGNING_SECRET",
+    "WIKI_WEBHOOK_SECRET",
+    "WIKI_WEBHOOK_PASSWORD",
+    "ADMIN_API_KEY",
+    "READER_API_KEY"
+];
+
+const SECRET_PATTERNS: [RegExp, string][] = [
+    [/xox[abeoprs]-[A-Za-z0-9-]{10,}/g, "[REDACTED]"],                              // Slack tokens
+    [/AIza[0-9A-Za-z_-]{30,}/g, "[REDACTED]"],                                      // Google API keys
+    [/\b(Basic|Bearer) [A-Za-z0-9+/._~-]{20,}=*/g, "$1 [REDACTED]"],                 // Authorization header values
+    [/([?&](?:key|api[_-]?key|token|access_token)=)[^&\s"']+/gi, "$1[REDACTED]"]    // credentials in URLs
+];
+
+const SECRET_FIELD = /authorization|password|secret|token|api[_-]?key|^pat$|cookie/i;
+const REDACTED = "[REDACTED]";
+
+export function redactString(text: string): string {
+    let result = text;
+    for (const name of SECRET_SETTINGS) {
+        const value = process.env[name];
+        if (value && value.length >= 6) result = result.split(value).join(REDACTED);
+    }
+    for (const [pattern, replacement] of SECRET_PATTERNS) {
+        result = result.replace(pattern, replacement);
+    }
+    return result.length > MAX_STRING_CHARS
+        ? result.substring(0, MAX_STRING_CHARS) + `… (${result.length} chars)`
+        : result;
+}
+
+function serializeError(err: any) {
+    return {
+        name: err.name,
+        message: err.message,
+        status: err.response?.status ?? err.status,
+        code: err.code,
+        stack: err.stack
+    };
+}
+
+/**
+ * Deep copy safe for JSON: secrets masked, errors expanded, cycles cut
+ */
+function sanitize(value: unknown, seen = new WeakSet<object>(), depth = 0): unknown {
+    if (typeof value === "string") return redactString(value);
+    if (value === null || typeof value !== "object") {
+        return typeof value === "bigint" || typeof value === "function" ? String(value) : value;
+    }
+    if (seen.has(value)) return "[Circular]";
+    if (depth > 6) return "[Truncated]";
+    seen.add(value);
+
+    if (value instanceof Error) return sanitize(serializeError(value), seen, depth + 1);
+    if (value instanceof Date) return value.toISOString();
+    if (Buffer.isBuffer(value)) return `[Buffer ${value.length} bytes]`;
+    if (value instanceof Map) return sanitize(Object.fromEntries(value), seen, depth + 1);
+    if (value instanceof Set) return sanitize(Array.from(value), seen, depth + 1);
+    if (Array.isArray(value)) return value.map(v => sanitize(v, seen, depth + 1));
+
+    const out: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+        out[key] = SECRET_FIELD.test(key) && typeof v === "string" && v ? REDACTED : sanitize(v, seen, depth + 1);
+    }
+    return out;
+}
+
+// ================= LOGGER =================
+
+/**
+ * console-style details → fields: strings/numbers are appended to the message,
+ * errors go to "error", plain objects are merged, anything else lands in "details"
+ */
+function buildEntry(level: LogLevel, message: string, details: unknown[], base: Record<string, unknown>) {
+    const fields: Record<string, unknown> = {};
+    const extra: unknown[] = [];
+    let msg = message;
+
+    for (const detail of details) {
+        if (detail instanceof Error) {
+            fields.error = detail;
+        } else if (detail === null || detail === undefined || typeof detail !== "object") {
+            msg += ` ${String(detail)}`;
+        } else if (Array.isArray(detail)) {
+            extra.push(detail);
+        } else {
+            Object.assign(fields, detail);
+        }
+    }
+    if (extra.length) fields.details = extra.length === 1 ? extra[0] : extra;
+
+    const context = getRequestContext();
+    return sanitize({
+        time: new Date().toISOString(),
+        level,
+        msg,
+        ...(context?.requestId ? { requestId: context.requestId } : {}),
+        ...(context?.jobId ? { jobId: context.jobId } : {}),
+        ...base,
+        ...fields
+    }) as Record<string, unknown>;
+}
+
+function prettyLine(entry: Record<string, unknown>): string {
+    const { time, level, msg, requestId, ...rest } = entry;
+    const id = requestId ? ` [${String(requestId).substring(0, 8)}]` : "";
+    const fields = Object.keys(rest).length ? ` ${JSON.stringify(rest)}` : "";
+    return `[${time}] ${String(level).toUpperCase()}${id} ${msg}${fields}`;
+}
+
+function write(level: LogLevel, message: string, details: unknown[], base: Record<string, unknown>) {
+    if (LEVELS[level] < LEVELS[configuredLevel()]) return;
+
+    const entry = buildEntry(level, message, details, base);
+    const json = JSON.stringify(entry);
+    writeLine(json);
+
+    const line = process.env.LOG_FORMAT === "pretty" ? prettyLine(entry) : json;
+    if (level === "error" || level === "warn") {
+        process.stderr.write(line + "\n");
+    } else {
+        process.stdout.write(line + "\n");
+    }
+}
+
+function createLogger(base: Record<string, unknown> = {}): Logger {
+    return {
+        debug: (message, ...details) => write("debug", message, details, base),
+        info: (message, ...details) => write("info", message, details, base),
+        warn: (message, ...details) => write("warn", message, details, base),
+        error: (message, ...details) => write("error", message, details, base),
+        child: fields => createLogger({ ...base, ...fields })
+    };
+}
+
+export const logger = createLogger();
@@ -0,0 +1,27 @@
+// src/utils/requestContext.ts
+// Correlation id of the request (or job) currently being handled, carried across awaits,
+// so every log line of one Slack question shares the same requestId.
+import { AsyncLocalStorage } from "async_hooks";
+import crypto from "crypto";
+
+export interface RequestContext {
+    requestId: string;
+    jobId?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function newRequestId(): string {
+    return crypto.randomUUID();
+}
+
+/**
+ * Run `fn` (and everything it awaits or schedules) inside the given context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+    return storage.run(context, fn);
+}
+
+export function getRequestContext(): RequestContext | undefined {
+    return storage.getStore();
+}
@@ -0,0 +1,76 @@
+// src/utils/retry.ts
+// Retries for Azure DevOps calls: throttling (429), server errors (5xx) and dropped connections,
+// with exponential backoff. A Retry-After header from the server wins over the backoff, up to maxDelayMs.
+
+export interface RetryOptions {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;         // also caps Retry-After, so one response can't park a worker for hours
+    signal?: AbortSignal;
+    onRetry?: (attempt: number, delayMs: number, err: unknown) => void;
+}
+
+const RETRYABLE_NETWORK_CODES = new Set([
+    "ECONNRESET", "ECONNREFUSED", "ECONNABORTED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN"
+]);
+
+export function isRetryableError(err: any): boolean {
+    const status = err?.response?.status;
+    if (status) return status === 408 || status === 429 || status >= 500;
+    return RETRYABLE_NETWORK_CODES.has(err?.code);
+}
+
+/**
+ * Retry-After as milliseconds: either delay-seconds ("30") or an HTTP date
+ */
+export function retryAfterMs(err: any, now = Date.now()): number | null {
+    const header = err?.response?.headers?.["retry-after"];
+    if (header === undefined || header === null || header === "") return null;
+
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(String(header));
+    return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export function backoffDelayMs(attempt: number, options: RetryOptions): number {
+    const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+    // Jitter keeps concurrent workers from retrying in lockstep
+    return Math.round(exponential / 2 + Math.random() * exponential / 2);
+}
+
+// Resolves early when the signal aborts; the caller decides what cancellation means
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        if (signal?.aborted) return resolve();
+        const timer = setTimeout(done, ms);
+        function done() {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", done);
+            resolve();
+        }
+        signal?.addEventListener("abort", done);
+    });
+}
+
+/**
+ * Run `fn` until it succeeds, fails with a non-retryable error or runs out of attempts
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn();
+        } catch (err) {
+            if (attempt >= options.maxAttempts || !isRetryableError(err) || options.signal?.aborted) {
+                throw err;
+            }
+
+            const delayMs = Math.min(retryAfterMs(err) ?? backoffDelayMs(attempt, options), options.maxDelayMs);
+            options.onRetry?.(attempt, delayMs, err);
+            await sleep(delayMs, options.signal);
+
+            if (options.signal?.aborted) throw err;
+        }
+    }
+}
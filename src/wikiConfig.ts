@@ -0,0 +1,136 @@
+// src/wikiConfig.ts
+// Which wikis are exported and searched. Listed in config/wikis.json; without that file the
+// single wiki from the env (AZ_ORG / AZ_PROJECT / WIKI_ID) is used, exactly as before.
+import fs from "fs";
+import path from "path";
+import { logger } from "./utils/logger";
+
+const WIKIS_FILE = path.join(process.cwd(), "config", "wikis.json");
+export const DEFAULT_WIKI_KEY = "default";
+
+export interface WikiConfig {
+    key: string;            // short scope name, e.g. "platform" → /wiki [platform] …
+    name: string;           // display name
+    org: string;
+    project: string;
+    wikiId: string;         // wiki id or name (e.g. "Platform.wiki")
+    repository?: string;    // git repository id/name if it differs from wikiId (push webhooks)
+    clientUrl?: string;     // override for the wiki REST base URL
+    imageRepoUrl?: string;  // override for the git items URL (attachments, page versions)
+    aliases?: string[];
+    legacy?: boolean;       // env-configured wiki: export files keep their un-prefixed names
+}
+
+let cached: { mtimeMs: number; wikis: WikiConfig[] } | null = null;
+
+function legacyWikiFromEnv(): WikiConfig {
+    return {
+        key: DEFAULT_WIKI_KEY,
+        name: process.env.WIKI_ID || "Wiki",
+        org: process.env.AZ_ORG || "",
+        project: process.env.AZ_PROJECT || "",
+        wikiId: process.env.WIKI_ID || "",
+        clientUrl: process.env.AZ_CLIENT_URL,
+        imageRepoUrl: process.env.IMAGE_REPO_URL,
+        legacy: true
+    };
+}
+
+function validateWikis(wikis: any[]): WikiConfig[] {
+    const seen = new Set<string>();
+
+    return wikis.map((raw, i) => {
+        const key = String(raw?.key || "").trim().toLowerCase();
+        if (!/^[a-z0-9][a-z0-9_-]*$/.test(key)) {
+            throw new Error(`wikis.json entry ${i}: "key" must be lowercase letters, digits, "-" or "_"`);
+        }
+        if (!raw.project || !raw.wikiId) {
+            throw new Error(`wikis.json entry "${key}": "project" and "wikiId" are required`);
+        }
+
+        for (const name of [key, ...(raw.aliases || []).map((a: string) => a.toLowerCase())]) {
+            if (seen.has(name)) throw new Error(`wikis.json: duplicate wiki key or alias "${name}"`);
+            seen.add(name);
+        }
+
+        return {
+            key,
+            name: raw.name || key,
+            org: raw.org || process.env.AZ_ORG || "",
+            project: raw.project,
+            wikiId: raw.wikiId,
+            repository: raw.repository,
+            clientUrl: raw.clientUrl,
+            imageRepoUrl: raw.imageRepoUrl,
+            aliases: raw.aliases || []
+        };
+    });
+}
+
+/**
+ * Configured wikis (re-read when config/wikis.json changes)
+ */
+export function loadWikiConfigs(): WikiConfig[] {
+    if (!fs.existsSync(WIKIS_FILE)) {
+        cached = null;
+        return [legacyWikiFromEnv()];
+    }
+
+    const mtimeMs = fs.statSync(WIKIS_FILE).mtimeMs;
+    if (cached?.mtimeMs === mtimeMs) return cached.wikis;
+
+    const parsed = JSON.parse(fs.readFileSync(WIKIS_FILE, "utf8"));
+    const list = Array.isArray(parsed) ? parsed : parsed?.wikis;
+    if (!Array.isArray(list) || list.length === 0) {
+        throw new Error("config/wikis.json must list at least one wiki");
+    }
+
+    cached = { mtimeMs, wikis: validateWikis(list) };
+    logger.info(`📚 Loaded ${cached.wikis.length} wiki(s): ${cached.wikis.map(w => w.key).join(", ")}`);
+    return cached.wikis;
+}
+
+export function getDefaultWiki(): WikiConfig {
+    return loadWikiConfigs()[0];
+}
+
+/**
+ * Wiki for a scope typed by a user: key, alias or display name (case-insensitive)
+ */
+export function findWikiByScope(scope: string): WikiConfig | null {
+    const wanted = scope.trim().toLowerCase();
+    if (!wanted) return null;
+
+    return loadWikiConfigs().find(w =>
+        w.key === wanted ||
+        w.name.toLowerCase() === wanted ||
+        (w.aliases || []).some(a => a.toLowerCase() === wanted)
+    ) || null;
+}
+
+/**
+ * Wiki whose git repository received a push (by repository id or name)
+ */
+export function findWikiByRepository(repository: { id?: string; name?: string }): WikiConfig | null {
+    const candidates = [repository?.id, repository?.name]
+        .filter((v): v is string => typeof v === "string")
+        .map(v => v.toLowerCase());
+
+    return loadWikiConfigs().find(w => {
+        const repo = (w.repository || w.wikiId).toLowerCase();
+        return !!repo && candidates.includes(repo);
+    }) || null;
+}
+
+/**
+ * "[platform] how do I rotate certs" → { scope: "platform", question: "how do I rotate certs" }
+ */
+export function parseScopedQuestion(text: string): { scope: string | null; question: string } {
+    const match = (text || "").match(/^\s*\[([^\]]+)\]\s*([\s\S]*)$/);
+    if (!match) return { scope: null, question: (text || "").trim() };
+    return { scope: match[1].trim(), question: match[2].trim() };
+}
+
+export function describeWikiScopes(): string {
+    return loadWikiConfigs().map(w => `\`${w.key}\` (${w.name})`).join(", ");
+}
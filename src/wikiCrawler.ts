@@ -0,0 +1,323 @@
+// src/wikiCrawler.ts
+// Fetches page content for wiki exports: several pages at a time, throttled/failed requests are retried,
+// and pages whose git version did not change since the last crawl are served from a local cache.
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import { getWikiClient, getWikiRepoItemsUrl, getAzureAuthHeader } from "./azureClient";
+import { JobContext } from "./jobManager";
+import { WikiConfig } from "./wikiConfig";
+import { withRetry, RetryOptions } from "./utils/retry";
+import { mapWithConcurrency } from "./utils/concurrency";
+import { logger } from "./utils/logger";
+
+const apiVersion = process.env.API_VERSION || "7.1-preview.1";
+
+const CACHE_FILE = path.join(process.cwd(), "config", "wiki-page-cache.json");
+const REPORT_FILE = path.join(process.cwd(), "config", "wiki-crawl-report.json");
+
+const CONCURRENCY = Number(process.env.WIKI_CRAWL_CONCURRENCY) || 4;
+const RETRY: RetryOptions = {
+    maxAttempts: Number(process.env.WIKI_CRAWL_MAX_ATTEMPTS) || 5,
+    baseDelayMs: Number(process.env.WIKI_CRAWL_RETRY_BASE_MS) || 1000,
+    maxDelayMs: 60 * 1000
+};
+
+export interface CrawledPage {
+    wiki: string;
+    path: string;
+    gitItemPath: string;
+    content: string;
+    remoteUrl: string;
+    fromCache: boolean;     // unchanged since the last crawl → no content request was made
+}
+
+export interface CrawlPageError {
+    wiki: string;
+    path: string;
+    status?: number;        // HTTP status of the last attempt (none for network errors)
+    attempts: number;
+    error: string;
+}
+
+export interface CrawlReport {
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+    concurrency: number;
+    wikis: string[];
+    pagesTotal: number;
+    pagesFetched: number;
+    pagesFromCache: number;
+    pagesFailed: number;
+    retries: number;
+    errors: CrawlPageError[];
+}
+
+export interface CrawlResult {
+    pages: CrawledPage[];                           // successfully crawled, in tree order
+    treePages: { wiki: string; path: string }[];    // every page in the trees, including failed ones
+    report: CrawlReport;
+}
+
+interface CachedPage {
+    version?: string;       // git object id of the page's .md file
+    eTag?: string;          // ETag of the last page response (conditional request fallback)
+    content: string;
+    remoteUrl: string;
+    fetchedAt: string;
+}
+
+interface PageNode {
+    wiki: WikiConfig;
+    path: string;
+    gitItemPath: string;
+    remoteUrl: string;
+}
+
+// ================= CACHE =================
+
+// "<wiki key>:<page path>" → last fetched content
+function loadCache(): Record<string, CachedPage> {
+    if (!fs.existsSync(CACHE_FILE)) return {};
+    try {
+        return JSON.parse(fs.readFileSync(CACHE_FILE, "utf8"));
+    } catch (err) {
+        logger.error("⚠️ Failed to read wiki page cache, refetching all pages:", err);
+        return {};
+    }
+}
+
+function writeConfigFile(file: string, data: unknown) {
+    const dir = path.dirname(file);
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(file, JSON.stringify(data, null, 2), "utf8");
+}
+
+function cacheKey(wiki: WikiConfig, pagePath: string): string {
+    return `${wiki.key}:${pagePath}`;
+}
+
+/**
+ * Report of the last full crawl (null before the first one)
+ */
+export function getLastCrawlReport(): CrawlReport | null {
+    if (!fs.existsSync(REPORT_FILE)) return null;
+    return JSON.parse(fs.readFileSync(REPORT_FILE, "utf8"));
+}
+
+// ================= AZURE REQUESTS =================
+
+/**
+ * Page tree (without content) of one wiki
+ */
+export async function getPageTree(wiki: WikiConfig, signal?: AbortSignal): Promise<any[]> {
+    const res = await withRetry(
+        () => getWikiClient(wiki).get(`/${wiki.wikiId}/pages?recursionLevel=full&api-version=${apiVersion}`),
+        { ...RETRY, signal }
+    );
+
+    if (Array.isArray(res.data?.value)) {
+        return res.data.value;
+    } else if (res.data?.path) {
+        return [res.data];
+    }
+
+    logger.error("RAW RESPONSE:", res.data);
+    throw new Error(`Azure DevOps returned unknown page structure for wiki ${wiki.key}`);
+}
+
+/**
+ * Git object id of every file in the wiki repository (one request for the whole wiki).
+ * Without it (e.g. the PAT lacks Code read) pages are revalidated with their ETag instead.
+ */
+async function getPageVersions(wiki: WikiConfig, signal?: AbortSignal): Promise<Map<string, string>> {
+    try {
+        const res = await withRetry(
+            () => axios.get(getWikiRepoItemsUrl(wiki), {
+                params: { scopePath: "/", recursionLevel: "Full", "api-version": "7.1" },
+                headers: { Authorization: getAzureAuthHeader() },
+                signal
+            }),
+            { ...RETRY, signal }
+        );
+
+        const versions = new Map<string, string>();
+        for (const item of res.data?.value || []) {
+            if (item.gitObjectType === "blob" && item.path && item.objectId) {
+                versions.set(item.path, item.objectId);
+            }
+        }
+        return versions;
+    } catch (err: any) {
+        logger.warn(`⚠️ Could not list page versions of wiki ${wiki.key} (${err?.message}); revalidating every page`);
+        return new Map();
+    }
+}
+
+/**
+ * Page content; a 304 answer to the cached ETag means the cached content is still current
+ */
+async function fetchPageContent(node: PageNode, cached: CachedPage | undefined, signal?: AbortSignal) {
+    const res = await getWikiClient(node.wiki).get(`/${node.wiki.wikiId}/pages`, {
+        params: {
+            path: node.path,
+            includeContent: true,
+            apiVersion,
+        },
+        headers: cached?.eTag ? { "If-None-Match": cached.eTag } : {},
+        validateStatus: status => (status >= 200 && status < 300) || (status === 304 && !!cached),
+        signal
+    });
+
+    if (res.status === 304) {
+        return { content: cached!.content, eTag: cached!.eTag, notModified: true };
+    }
+    return { content: res.data?.content || "", eTag: res.headers?.etag as string | undefined, notModified: false };
+}
+
+// ================= CRAWL =================
+
+function flattenTree(node: any, wiki: WikiConfig, out: PageNode[]) {
+    if (node.path && node.path !== "/") {
+        out.push({ wiki, path: node.path, gitItemPath: node.gitItemPath, remoteUrl: node.remoteUrl });
+    }
+    if (Array.isArray(node.subPages)) {
+        for (const child of node.subPages) flattenTree(child, wiki, out);
+    }
+}
+
+/**
+ * Crawl the given wikis. Pages that still fail after all retries are listed in the report
+ * (and as job errors) instead of aborting the crawl. With `limit`, only the first N pages
+ * are crawled and the cache/report of the full crawl are left alone.
+ */
+export async function crawlWikiPages(options: { wikis: WikiConfig[]; job?: JobContext; limit?: number }): Promise<CrawlResult> {
+    const { wikis, job, limit } = options;
+    const signal = job?.signal;
+    const started = Date.now();
+
+    const nodes: PageNode[] = [];
+    const versions = new Map<string, Map<string, string>>();
+    for (const wiki of wikis) {
+        for (const root of await getPageTree(wiki, signal)) {
+            flattenTree(root, wiki, nodes);
+        }
+        versions.set(wiki.key, await getPageVersions(wiki, signal));
+        job?.throwIfCancelled();
+    }
+
+    const selected = limit !== undefined ? nodes.slice(0, limit) : nodes;
+    const cache = loadCache();
+    const errors: CrawlPageError[] = [];
+    let retries = 0;
+    let fromCache = 0;
+
+    job?.setPhase("fetching-pages");
+    job?.update({ pagesTotal: selected.length });
+
+    let results: (CrawledPage | null)[];
+    try {
+        results = await mapWithConcurrency(selected, CONCURRENCY, async node => {
+            job?.throwIfCancelled();
+
+            const key = cacheKey(node.wiki, node.path);
+            const cached = cache[key];
+            const version = versions.get(node.wiki.key)?.get(node.gitItemPath);
+            let attempts = 1;
+
+            try {
+                if (cached && version && cached.version === version) {
+                    fromCache++;
+                    return { ...toPage(node, cached.content), fromCache: true };
+                }
+
+                const fetched = await withRetry(() => fetchPageContent(node, cached, signal), {
+                    ...RETRY,
+                    signal,
+                    onRetry: (attempt, delayMs, err: any) => {
+                        attempts = attempt + 1;
+                        retries++;
+                        logger.warn(`🔁 ${node.wiki.key}:${node.path} → ${err?.response?.status || err?.code}, retry ${attempt} in ${delayMs}ms`);
+                    }
+                });
+
+                if (fetched.notModified) fromCache++;
+                cache[key] = {
+                    version,
+                    eTag: fetched.eTag,
+                    content: fetched.content,
+                    remoteUrl: node.remoteUrl,
+                    fetchedAt: new Date().toISOString()
+                };
+                return { ...toPage(node, fetched.content), fromCache: fetched.notModified };
+            } catch (err: any) {
+                job?.throwIfCancelled();
+                errors.push({
+                    wiki: node.wiki.key,
+                    path: node.path,
+                    status: err?.response?.status,
+                    attempts,
+                    error: err?.message || String(err)
+                });
+                job?.addError(node.path, err);
+                logger.error(`💥 Failed to fetch page ${node.wiki.key}:${node.path} after ${attempts} attempt(s):`, err?.message || err);
+                return null;
+            } finally {
+                job?.increment("pagesProcessed");
+            }
+        });
+    } finally {
+        // Pages no longer in any crawled tree drop out of the cache (only known after a full crawl)
+        if (limit === undefined) {
+            const current = new Set(nodes.map(n => cacheKey(n.wiki, n.path)));
+            const crawledWikis = new Set(wikis.map(w => `${w.key}:`));
+            for (const key of Object.keys(cache)) {
+                const wikiPrefix = key.substring(0, key.indexOf(":") + 1);
+                if (crawledWikis.has(wikiPrefix) && !current.has(key)) delete cache[key];
+            }
+        }
+        writeConfigFile(CACHE_FILE, cache);
+    }
+
+    const pages = results.filter((p): p is CrawledPage => p !== null);
+    const finished = Date.now();
+    const report: CrawlReport = {
+        startedAt: new Date(started).toISOString(),
+        finishedAt: new Date(finished).toISOString(),
+        durationMs: finished - started,
+        concurrency: CONCURRENCY,
+        wikis: wikis.map(w => w.key),
+        pagesTotal: selected.length,
+        pagesFetched: pages.length - fromCache,
+        pagesFromCache: fromCache,
+        pagesFailed: errors.length,
+        retries,
+        errors
+    };
+
+    if (limit === undefined) {
+        writeConfigFile(REPORT_FILE, report);
+    }
+
+    logger.info(`🕷 Crawled ${report.pagesTotal} page(s) in ${report.durationMs}ms: ` +
+        `${report.pagesFetched} fetched, ${report.pagesFromCache} unchanged, ${report.pagesFailed} failed, ${report.retries} retries`);
+
+    return {
+        pages,
+        treePages: nodes.map(n => ({ wiki: n.wiki.key, path: n.path })),
+        report
+    };
+}
+
+function toPage(node: PageNode, content: string): Omit<CrawledPage, "fromCache"> {
+    return {
+        wiki: node.wiki.key,
+        path: node.path,
+        gitItemPath: node.gitItemPath,
+        content,
+        remoteUrl: node.remoteUrl
+    };
+}
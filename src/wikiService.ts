@@ -1,15 +1,27 @@
 // src/wikiService.ts
-import { azureWikiClient } from "./azureClient";
+import { getWikiClient, getWikiRepoItemsUrl, getWikiRepoDiffsUrl, getAzureAuthHeader } from "./azureClient";
 import fs from "fs";
 import path from "path";
 import axios from "axios";
+import { JobContext } from "./jobManager";
+import { WikiConfig, loadWikiConfigs, getDefaultWiki } from "./wikiConfig";
+import { crawlWikiPages, CrawledPage } from "./wikiCrawler";
+import { withRetry, RetryOptions } from "./utils/retry";
+import { logger } from "./utils/logger";
+import { pagesExported } from "./metrics";
+import { invalidateLocalSearchIndex } from "./localSearch";
 
-const wikiId = process.env.WIKI_ID || "";
 const apiVersion = process.env.API_VERSION || "7.1-preview.1";
 
-// Use same org/project as azureClient (or override via env)
-const org = process.env.AZ_ORG || "";
-const project = process.env.AZ_PROJECT || "";
+const EXPORT_DIR = path.join(process.cwd(), "config", "wiki-files");
+const IMAGE_DIR = path.join(process.cwd(), "config", "wiki-images");
+
+// Single requests (images, pushed pages, diffs) get the same retries as the crawler
+const RETRY: RetryOptions = {
+  maxAttempts: Number(process.env.WIKI_CRAWL_MAX_ATTEMPTS) || 5,
+  baseDelayMs: Number(process.env.WIKI_CRAWL_RETRY_BASE_MS) || 1000,
+  maxDelayMs: 60 * 1000,
+};
 
 /* ================= IMAGE HELPERS ================= */
 
@@ -29,22 +41,14 @@ function extractImagePaths(content: string): string[] {
  * Download wiki image using the EXACT Git URL you tested manually.
  * This should produce a valid, openable PNG/JPG.
  */
-async function downloadWikiImage(imagePath: string) {
-  const imageDir = path.join(process.cwd(), "config", "wiki-images");
+async function downloadWikiImage(imagePath: string, wiki: WikiConfig) {
+  const filePath = path.join(IMAGE_DIR, wikiImageFileName(imagePath, wiki));
+  const imageDir = path.dirname(filePath);
   if (!fs.existsSync(imageDir)) {
     fs.mkdirSync(imageDir, { recursive: true });
   }
 
-  const pat = process.env.AZ_PAT;
-  if (!pat) {
-    throw new Error("AZ_PAT environment variable is not set");
-  }
-
-  const authHeader = Buffer.from(`:${pat}`).toString("base64");
-  const url = process.env.IMAGE_REPO_URL || `https://dev.azure.com/${org}/${project}` +
-    `/_apis/git/repositories/${wikiId}/items`;
-
-  const response = await axios.get(url, {
+  const response = await withRetry(() => axios.get(getWikiRepoItemsUrl(wiki), {
     params: {
       path: imagePath,
       download: true,
@@ -52,180 +56,205 @@ async function downloadWikiImage(imagePath: string) {
       "api-version": apiVersion,
     },
     headers: {
-      Authorization: `Basic ${authHeader}`,
+      Authorization: getAzureAuthHeader(),
       Accept: "application/octet-stream",
     },
     responseType: "arraybuffer",
-  });
-
-  const fileName = path.basename(imagePath);
-  const filePath = path.join(imageDir, fileName);
+  }), RETRY);
 
   fs.writeFileSync(filePath, Buffer.from(response.data));
 
   return filePath;
 }
 
-/* ================= CORE PAGE FETCH ================= */
-
 /**
- * Fetch page content by page PATH (more reliable than ID)
+ * Image path relative to config/wiki-images. Attachments are flattened into one folder per wiki
+ * ("platform/diagram.png"), so same-named images of two wikis never overwrite each other;
+ * the env-configured wiki keeps bare names, like its export files.
  */
-async function getContentByPath(pagePath: string) {
-  const res = await azureWikiClient.get(`/${wikiId}/pages`, {
-    params: {
-      path: pagePath,
-      includeContent: true,
-      apiVersion,
-    },
-  });
-
-  return res.data?.content || "";
+export function wikiImageFileName(imagePath: string, wiki: Pick<WikiConfig, "key" | "legacy">): string {
+  const name = path.basename(imagePath);
+  return wiki.legacy ? name : `${wiki.key}/${name}`;
 }
 
-/**
- * Fetch all pages with content recursively
- */
-export async function getAllWikiPagesWithContent(): Promise<any[]> {
-  const res = await azureWikiClient.get(
-    `/${wikiId}/pages?recursionLevel=full&api-version=${apiVersion}`
-  );
-
-  let roots: any[] = [];
-
-  if (Array.isArray(res.data?.value)) {
-    roots = res.data.value;
-  } else if (res.data?.path) {
-    roots = [res.data];
-  } else {
-    console.error("RAW RESPONSE:", res.data);
-    throw new Error("Azure DevOps returned unknown page structure");
-  }
-
-  const pages: any[] = [];
-
-  async function traverse(node: any) {
-    if (node.path && node.path !== "/") {
-      const content = await getContentByPath(node.path);
-
-      pages.push({
-        path: node.path,
-        gitItemPath: node.gitItemPath,
-        content,
-        remoteUrl: node.remoteUrl,
-      });
-    }
+// Every change to the export folder drops the keyword index (rebuilt lazily on the next search)
+function writeExportFile(filePath: string, content: object) {
+  fs.writeFileSync(filePath, JSON.stringify(content, null, 2), "utf8");
+  invalidateLocalSearchIndex();
+}
 
-    if (Array.isArray(node.subPages)) {
-      for (const child of node.subPages) {
-        await traverse(child);
-      }
-    }
-  }
+function removeExportFile(filePath: string) {
+  fs.unlinkSync(filePath);
+  invalidateLocalSearchIndex();
+}
 
-  for (const root of roots) {
-    await traverse(root);
-  }
+/* ================= CORE PAGE FETCH ================= */
 
+/**
+ * Fetch all pages with content (every configured wiki by default); see wikiCrawler.ts
+ */
+export async function getAllWikiPagesWithContent(job?: JobContext, wikis: WikiConfig[] = loadWikiConfigs()): Promise<CrawledPage[]> {
+  const { pages } = await crawlWikiPages({ wikis, job });
   return pages;
 }
 
 /**
- * Get FIRST N wiki pages with content (for testing)
+ * Get FIRST N wiki pages with content (for testing) — only those N pages are fetched
  */
-export async function getLimitedWikiPages(limit: number): Promise<any[]> {
-  const all = await getAllWikiPagesWithContent();
-  return all.slice(0, limit);
+export async function getLimitedWikiPages(limit: number): Promise<CrawledPage[]> {
+  const { pages } = await crawlWikiPages({ wikis: loadWikiConfigs(), limit });
+  return pages;
 }
 
 /* ================= EXPORT FUNCTIONS ================= */
 
 /**
- * Export ALL wiki pages + images
+ * Export file name for a wiki page path, e.g. "/Ops/VPN Setup" → "_Ops_VPN_Setup.json".
+ * Pages of wikis from config/wikis.json are prefixed with the wiki key ("platform__Ops_VPN_Setup.json").
+ */
+export function wikiExportFileName(pagePath: string, wiki?: WikiConfig): string {
+  const safeFileName = pagePath
+    .replace(/\//g, "_")
+    .replace(/\s+/g, "_")
+    .replace(/[^a-zA-Z0-9_]/g, "");
+  const prefix = wiki && !wiki.legacy ? `${wiki.key}_` : "";
+  return `${prefix}${safeFileName}.json`;
+}
+
+function findWiki(wikis: WikiConfig[], key: string): WikiConfig {
+  return wikis.find(w => w.key === key) || getDefaultWiki();
+}
+
+/**
+ * Export ALL wiki pages + images.
+ * Pages that could not be fetched keep their previous export file; export files of
+ * pages no longer in any wiki are removed.
  */
-export async function exportAllWikiPagesToFiles() {
-  const pages = await getAllWikiPagesWithContent();
+export async function exportAllWikiPagesToFiles(job?: JobContext) {
+  const wikis = loadWikiConfigs();
+  const { pages, treePages, report } = await crawlWikiPages({ wikis, job });
 
-  const exportDir = path.join(process.cwd(), "config", "wiki-files");
+  if (report.pagesTotal > 0 && report.pagesFailed === report.pagesTotal) {
+    throw new Error(`All ${report.pagesTotal} wiki pages failed to download: ${report.errors[0]?.error}`);
+  }
+
+  const exportDir = EXPORT_DIR;
   if (!fs.existsSync(exportDir)) {
     fs.mkdirSync(exportDir, { recursive: true });
   }
 
+  job?.setPhase("writing-files");
   for (const page of pages) {
-    const safeFileName = page.path
-      .replace(/\//g, "_")
-      .replace(/\s+/g, "_")
-      .replace(/[^a-zA-Z0-9_]/g, "");
+    job?.throwIfCancelled();
 
-    const filePath = path.join(exportDir, `${safeFileName}.json`);
+    const wiki = findWiki(wikis, page.wiki);
+    const filePath = path.join(exportDir, wikiExportFileName(page.path, wiki));
 
     // 🔍 find images in markdown
     const images = extractImagePaths(page.content);
     const savedImages: string[] = [];
 
     for (const img of images) {
+      // Unchanged page → its images are already on disk
+      const existing = path.join(IMAGE_DIR, wikiImageFileName(img, wiki));
+      if (page.fromCache && fs.existsSync(existing)) {
+        savedImages.push(existing);
+        continue;
+      }
+
       try {
-        const savedPath = await downloadWikiImage(img);
+        const savedPath = await downloadWikiImage(img, wiki);
         savedImages.push(savedPath);
+        job?.increment("imagesDownloaded");
       } catch (err) {
-        console.error(`Failed to download image ${img}`, err);
+        logger.error(`Failed to download image ${img}`, err);
+        job?.addError(img, err);
       }
     }
 
     const fileContent = {
+      wiki: wiki.key,
       title: page.path,
       source: page.remoteUrl,
       content: page.content,
       images: savedImages,
     };
 
-    fs.writeFileSync(filePath, JSON.stringify(fileContent, null, 2), "utf8");
+    writeExportFile(filePath, fileContent);
   }
 
+  for (const page of pages) {
+    pagesExported.inc({ wiki: page.wiki, result: page.fromCache ? "unchanged" : "fetched" });
+  }
+  for (const error of report.errors) {
+    pagesExported.inc({ wiki: error.wiki, result: "failed" });
+  }
+
+  const removedFiles = pruneExportedPages(
+    new Set(treePages.map(p => wikiExportFileName(p.path, findWiki(wikis, p.wiki))))
+  );
+
   return {
     totalPages: pages.length,
     folder: exportDir,
+    fetched: report.pagesFetched,
+    unchanged: report.pagesFromCache,
+    failed: report.errors,
+    removedFiles,
   };
 }
 
+/**
+ * Delete export files that no longer belong to a wiki page
+ */
+function pruneExportedPages(expected: Set<string>): string[] {
+  const removed: string[] = [];
+  for (const file of fs.readdirSync(EXPORT_DIR)) {
+    if (!file.endsWith(".json") || expected.has(file)) continue;
+    removeExportFile(path.join(EXPORT_DIR, file));
+    logger.info(`🗑 Removed export of deleted page: ${file}`);
+    removed.push(file);
+  }
+  return removed;
+}
+
 /**
  * Export ONLY N wiki pages + images (for testing)
  */
 export async function exportLimitedWikiPagesToFiles(limit: number) {
+  const wikis = loadWikiConfigs();
   const pages = await getLimitedWikiPages(limit);
 
-  const exportDir = path.join(process.cwd(), "config", "wiki-files");
+  const exportDir = EXPORT_DIR;
 
   ensureEmptyDirectory(exportDir);
+  invalidateLocalSearchIndex();
 
   for (const page of pages) {
-    const safeFileName = page.path
-      .replace(/\//g, "_")
-      .replace(/\s+/g, "_")
-      .replace(/[^a-zA-Z0-9_]/g, "");
-
-    const filePath = path.join(exportDir, `${safeFileName}.json`);
+    const wiki = findWiki(wikis, page.wiki);
+    const filePath = path.join(exportDir, wikiExportFileName(page.path, wiki));
 
     const images = extractImagePaths(page.content);
     const savedImages: string[] = [];
 
     for (const img of images) {
       try {
-        const savedPath = await downloadWikiImage(img);
+        const savedPath = await downloadWikiImage(img, wiki);
         savedImages.push(savedPath);
       } catch (err) {
-        console.error(`Failed to download image ${img}`, err);
+        logger.error(`Failed to download image ${img}`, err);
       }
     }
 
     const fileContent = {
+      wiki: wiki.key,
       title: page.path,
       source: page.remoteUrl,
       content: page.content,
       images: savedImages,
     };
 
-    fs.writeFileSync(filePath, JSON.stringify(fileContent, null, 2), "utf8");
+    writeExportFile(filePath, fileContent);
   }
 
   return {
@@ -234,12 +263,214 @@ export async function exportLimitedWikiPagesToFiles(limit: number) {
   };
 }
 
+/* ================= PARTIAL EXPORT (WIKI PUSH) ================= */
+
+/**
+ * Fetch a single page; null when it no longer exists in the wiki
+ */
+async function getPageByPath(pagePath: string, wiki: WikiConfig): Promise<{ path: string; content: string; remoteUrl: string } | null> {
+  try {
+    const res = await withRetry(() => getWikiClient(wiki).get(`/${wiki.wikiId}/pages`, {
+      params: {
+        path: pagePath,
+        includeContent: true,
+        apiVersion,
+      },
+    }), RETRY);
+    return {
+      path: res.data?.path || pagePath,
+      content: res.data?.content || "",
+      remoteUrl: res.data?.remoteUrl,
+    };
+  } catch (err: any) {
+    if (err?.response?.status === 404) return null;
+    throw err;
+  }
+}
+
+/**
+ * Re-export only the given pages (+ their images).
+ * Pages that no longer exist have their export file removed.
+ */
+export async function exportWikiPagesByPath(pagePaths: string[], wiki: WikiConfig, job?: JobContext) {
+  if (!fs.existsSync(EXPORT_DIR)) {
+    fs.mkdirSync(EXPORT_DIR, { recursive: true });
+  }
+
+  const exported: string[] = [];
+  const removed: string[] = [];
+  const images: string[] = [];
+
+  job?.setPhase("exporting-pages");
+  job?.update({ pagesTotal: pagePaths.length });
+
+  for (const pagePath of pagePaths) {
+    job?.throwIfCancelled();
+
+    const fileName = wikiExportFileName(pagePath, wiki);
+    const filePath = path.join(EXPORT_DIR, fileName);
+
+    try {
+      const page = await getPageByPath(pagePath, wiki);
+      if (!page) {
+        removed.push(...removeExportedPages([pagePath], wiki));
+        continue;
+      }
+
+      const savedImages: string[] = [];
+      for (const img of extractImagePaths(page.content)) {
+        try {
+          savedImages.push(await downloadWikiImage(img, wiki));
+          images.push(wikiImageFileName(img, wiki));
+          job?.increment("imagesDownloaded");
+        } catch (err) {
+          logger.error(`Failed to download image ${img}`, err);
+          job?.addError(img, err);
+        }
+      }
+
+      const fileContent = {
+        wiki: wiki.key,
+        title: page.path,
+        source: page.remoteUrl,
+        content: page.content,
+        images: savedImages,
+      };
+
+      writeExportFile(filePath, fileContent);
+      exported.push(fileName);
+      pagesExported.inc({ wiki: wiki.key, result: "fetched" });
+    } catch (err) {
+      logger.error(`Failed to export page ${pagePath}`, err);
+      pagesExported.inc({ wiki: wiki.key, result: "failed" });
+      job?.addError(pagePath, err);
+    } finally {
+      job?.increment("pagesProcessed");
+    }
+  }
+
+  return { exported, removed, images };
+}
+
+/**
+ * Delete export files of pages removed from the wiki; returns the removed file names
+ */
+export function removeExportedPages(pagePaths: string[], wiki: WikiConfig): string[] {
+  const removed: string[] = [];
+  for (const pagePath of pagePaths) {
+    const fileName = wikiExportFileName(pagePath, wiki);
+    const filePath = path.join(EXPORT_DIR, fileName);
+    if (fs.existsSync(filePath)) {
+      removeExportFile(filePath);
+      logger.info(`🗑 Removed export of deleted page: ${pagePath}`);
+    }
+    removed.push(fileName);
+  }
+  return removed;
+}
+
+/**
+ * Re-download changed attachments and delete removed ones.
+ * Only images already exported (i.e. used by a page) are refreshed; new images
+ * arrive with the page that references them.
+ */
+export async function syncWikiAttachments(changed: string[], deleted: string[], wiki: WikiConfig, job?: JobContext) {
+  const refreshed: string[] = [];
+  const removed: string[] = [];
+
+  for (const imagePath of changed) {
+    const fileName = wikiImageFileName(imagePath, wiki);
+    if (!fs.existsSync(path.join(IMAGE_DIR, fileName))) continue;
+
+    try {
+      await downloadWikiImage(imagePath, wiki);
+      refreshed.push(fileName);
+      job?.increment("imagesDownloaded");
+    } catch (err) {
+      logger.error(`Failed to download image ${imagePath}`, err);
+      job?.addError(imagePath, err);
+    }
+  }
+
+  for (const imagePath of deleted) {
+    const fileName = wikiImageFileName(imagePath, wiki);
+    const filePath = path.join(IMAGE_DIR, fileName);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+      logger.info(`🗑 Removed deleted attachment: ${fileName}`);
+    }
+    removed.push(fileName);
+  }
+
+  return { refreshed, removed };
+}
+
+/* ================= GIT PUSH DIFF ================= */
+
+export interface WikiRepoChange {
+  path: string;            // git path, e.g. "/Ops/VPN-Setup.md"
+  changeType: string;      // "add", "edit", "delete", "rename", "edit, rename", ...
+  originalPath?: string;   // previous path for renames
+}
+
+/**
+ * Files changed between two commits of the wiki repository.
+ * Service hook payloads only carry commit ids, so the diff comes from the Git API.
+ */
+export async function getWikiRepoChanges(wiki: WikiConfig, baseCommit: string, targetCommit: string): Promise<WikiRepoChange[]> {
+  const changes: WikiRepoChange[] = [];
+  const pageSize = 100;
+  let skip = 0;
+
+  while (true) {
+    const res = await withRetry(() => axios.get(getWikiRepoDiffsUrl(wiki), {
+      params: {
+        baseVersion: baseCommit,
+        baseVersionType: "commit",
+        targetVersion: targetCommit,
+        targetVersionType: "commit",
+        $top: pageSize,
+        $skip: skip,
+        "api-version": "7.1",
+      },
+      headers: { Authorization: getAzureAuthHeader() },
+    }), RETRY);
+
+    const batch: any[] = res.data?.changes || [];
+    for (const change of batch) {
+      if (!change.item?.path || change.item.isFolder) continue;
+      changes.push({
+        path: change.item.path,
+        changeType: String(change.changeType || "edit"),
+        originalPath: change.sourceServerItem,
+      });
+    }
+
+    if (res.data?.allChangesIncluded !== false || batch.length === 0) break;
+    skip += batch.length;
+  }
+
+  return changes;
+}
+
+/**
+ * Git path of a wiki page → wiki page path.
+ * The wiki stores "/Ops/VPN Setup" as "/Ops/VPN-Setup.md" ("-" → space, "%2D" → "-").
+ */
+export function gitPathToWikiPagePath(gitPath: string): string {
+  const withoutExt = gitPath.replace(/\.md$/i, "");
+  return withoutExt
+    .split("/")
+    .map(segment => decodeURIComponent(segment.replace(/-/g, " ")))
+    .join("/");
+}
+
 /**
  * Debug helper
  */
-export async function getRawPagesResponse() {
-  const res = await azureWikiClient.get(
-    `/${wikiId}/pages?recursionLevel=full&api-version=${apiVersion}`
+export async function getRawPagesResponse(wiki: WikiConfig = getDefaultWiki()) {
+  const res = await getWikiClient(wiki).get(
+    `/${wiki.wikiId}/pages?recursionLevel=full&api-version=${apiVersion}`
   );
   return res.data;
 }
@@ -0,0 +1,315 @@
+// src/wikiWebhook.ts
+// Azure DevOps "git.push" service hook for the wiki repository: re-export and re-sync only the pages/images a push touched.
+import {
+    getWikiRepoChanges,
+    gitPathToWikiPagePath,
+    exportWikiPagesByPath,
+    removeExportedPages,
+    syncWikiAttachments,
+    wikiImageFileName,
+    WikiRepoChange
+} from "./wikiService";
+import { syncWikiToGeminiRag } from "./geminiService";
+import { startJob, findRunningJob, waitForJob, JobContext, Job, JobCancelledError } from "./jobManager";
+import { WikiConfig, findWikiByRepository, loadWikiConfigs } from "./wikiConfig";
+import { logger } from "./utils/logger";
+
+const EMPTY_COMMIT = /^0+$/;
+const IMAGE_EXTENSIONS = /\.(png|jpg|jpeg|gif)$/i;
+
+// A failed batch stays queued and is retried after 30s, 1m, 2m, ... up to 15 minutes
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 15 * 60_000;
+
+type PageAction = "upsert" | "delete";
+type ImageAction = "changed" | "deleted";
+
+export interface WikiPushChanges {
+    pages: Map<string, PageAction>;     // wiki page path → action
+    images: Map<string, ImageAction>;   // attachment git path → action
+}
+
+// Changes waiting for the wiki-push job, per wiki key; later pushes override earlier actions
+const pending = new Map<string, WikiPushChanges>();
+let draining = false;
+let failedDrains = 0;
+let retryTimer: NodeJS.Timeout | null = null;
+
+// ================= PAYLOAD =================
+
+/**
+ * Map git file changes to wiki pages and attachments (".order" and other files are ignored)
+ */
+export function classifyWikiChanges(changes: WikiRepoChange[]): WikiPushChanges {
+    const result: WikiPushChanges = { pages: new Map(), images: new Map() };
+
+    for (const change of changes) {
+        const deleted = change.changeType.includes("delete");
+
+        if (change.path.includes("/.attachments/")) {
+            if (IMAGE_EXTENSIONS.test(change.path)) {
+                result.images.set(change.path, deleted ? "deleted" : "changed");
+            }
+            continue;
+        }
+
+        if (!/\.md$/i.test(change.path)) continue;
+
+        // A rename removes the page under its old path
+        if (change.changeType.includes("rename") && change.originalPath) {
+            result.pages.set(gitPathToWikiPagePath(change.originalPath), "delete");
+        }
+        result.pages.set(gitPathToWikiPagePath(change.path), deleted ? "delete" : "upsert");
+    }
+
+    return result;
+}
+
+/**
+ * The pushed wiki and the files changed on its branch (null for other repositories)
+ */
+export async function resolvePushChanges(payload: any): Promise<{ wiki: WikiConfig; changes: WikiPushChanges } | null> {
+    const repository = payload?.resource?.repository;
+    const wiki = findWikiByRepository(repository || {});
+
+    if (!wiki) {
+        logger.info(`⏭ Ignoring push to ${repository?.name || "unknown repository"} (not a configured wiki)`);
+        return null;
+    }
+
+    const refUpdates: any[] = payload.resource.refUpdates || [];
+    const branchUpdates = refUpdates.filter(u =>
+        !repository.defaultBranch || u.name === repository.defaultBranch
+    );
+
+    const changes: WikiRepoChange[] = [];
+    for (const update of branchUpdates) {
+        // Branch created or deleted → nothing to diff
+        if (EMPTY_COMMIT.test(update.oldObjectId) || EMPTY_COMMIT.test(update.newObjectId)) continue;
+        changes.push(...await getWikiRepoChanges(wiki, update.oldObjectId, update.newObjectId));
+    }
+
+    return { wiki, changes: classifyWikiChanges(changes) };
+}
+
+// ================= PROCESSING =================
+
+/**
+ * Next wiki to process; wikis that already failed in this run are left for the retry
+ */
+function takePending(skip: Set<string>): { wikiKey: string; batch: WikiPushChanges } | null {
+    for (const [wikiKey, batch] of pending) {
+        if (skip.has(wikiKey)) continue;
+        pending.delete(wikiKey);
+        return { wikiKey, batch };
+    }
+    return null;
+}
+
+function pendingFor(wikiKey: string): WikiPushChanges {
+    let changes = pending.get(wikiKey);
+    if (!changes) {
+        changes = { pages: new Map(), images: new Map() };
+        pending.set(wikiKey, changes);
+    }
+    return changes;
+}
+
+// A failed batch goes back to the queue unless a newer push already changed the same item
+function restorePending(wikiKey: string, batch: WikiPushChanges) {
+    const queued = pendingFor(wikiKey);
+    for (const [page, action] of batch.pages) {
+        if (!queued.pages.has(page)) queued.pages.set(page, action);
+    }
+    for (const [image, action] of batch.images) {
+        if (!queued.images.has(image)) queued.images.set(image, action);
+    }
+}
+
+/**
+ * Queued changes per wiki, e.g. { platform: { pages: 3, images: 1 } }
+ */
+export function describePendingWikiChanges(): Record<string, { pages: number; images: number }> {
+    const summary: Record<string, { pages: number; images: number }> = {};
+    for (const [wikiKey, changes] of pending) {
+        summary[wikiKey] = { pages: changes.pages.size, images: changes.images.size };
+    }
+    return summary;
+}
+
+function keysWith<T>(map: Map<string, T>, value: T): string[] {
+    return Array.from(map).filter(([, v]) => v === value).map(([k]) => k);
+}
+
+/**
+ * Full export/sync, synonym and pipeline jobs rewrite the same folders and store → let them finish first
+ */
+async function waitForOtherJobs(job: JobContext) {
+    let busy: Job | null;
+    while ((busy = findRunningJob("pipeline") || findRunningJob("export") || findRunningJob("sync") || findRunningJob("synonyms"))) {
+        job.setPhase(`waiting-for-${busy.type}`);
+        await waitForJob(busy.id);
+        job.throwIfCancelled();
+    }
+}
+
+async function processWikiPushes(job: JobContext) {
+    const results: unknown[] = [];
+    const failed: { wiki: string; error: string }[] = [];
+    const skip = new Set<string>();
+
+    try {
+        let next: ReturnType<typeof takePending>;
+        while ((next = takePending(skip))) {
+            const { wikiKey, batch } = next;
+
+            try {
+                const wiki = loadWikiConfigs().find(w => w.key === wikiKey);
+                if (!wiki) {
+                    logger.warn(`⚠️ Wiki "${wikiKey}" is no longer configured; dropping its queued changes`);
+                    continue;
+                }
+
+                await waitForOtherJobs(job);
+
+                const pages = await exportWikiPagesByPath(keysWith(batch.pages, "upsert"), wiki, job);
+                const removedPages = removeExportedPages(keysWith(batch.pages, "delete"), wiki);
+                const attachments = await syncWikiAttachments(
+                    keysWith(batch.images, "changed"),
+                    keysWith(batch.images, "deleted"),
+                    wiki,
+                    job
+                );
+
+                const files = [...pages.exported, ...pages.removed, ...removedPages];
+                const images = [
+                    ...pages.images,
+                    ...attachments.refreshed,
+                    ...attachments.removed
+                ];
+
+                // Page counters restart for the sync stage
+                job.update({ pagesProcessed: 0, pagesTotal: 0 });
+                const sync = await syncWikiToGeminiRag({
+                    job,
+                    skipSynonyms: true,
+                    only: { files, images: Array.from(new Set(images)) }
+                });
+
+                results.push({ wiki: wikiKey, pages: pages.exported, removedPages: [...pages.removed, ...removedPages], images, sync });
+            } catch (err) {
+                restorePending(wikiKey, batch);
+                if (err instanceof JobCancelledError) throw err;
+
+                // Keep draining the other wikis; this one is retried with backoff
+                logger.error(`🔥 Wiki push for ${wikiKey} failed; its changes stay queued:`, err);
+                job.addError(wikiKey, err);
+                failed.push({ wiki: wikiKey, error: err instanceof Error ? err.message : String(err) });
+                skip.add(wikiKey);
+            }
+        }
+    } finally {
+        draining = false;
+        failedDrains = failed.length > 0 ? failedDrains + 1 : 0;
+        if (pending.size > 0) {
+            logger.warn(`📭 Wiki changes still queued: ${JSON.stringify(describePendingWikiChanges())}`);
+            // A cancelled job leaves its changes for the next push instead of restarting on its own
+            if (!job.signal.aborted) scheduleRetry();
+        }
+    }
+
+    if (failed.length > 0 && results.length === 0) {
+        throw new Error(`Wiki push failed for ${failed.map(f => f.wiki).join(", ")}; changes stay queued for a retry`);
+    }
+
+    return { wikis: results, failed, queued: describePendingWikiChanges() };
+}
+
+function scheduleRetry() {
+    if (retryTimer) return;
+
+    const delayMs = Math.min(RETRY_BASE_MS * 2 ** Math.max(0, failedDrains - 1), RETRY_MAX_MS);
+    logger.info(`⏳ Retrying queued wiki changes in ${Math.round(delayMs / 1000)}s`);
+
+    retryTimer = setTimeout(() => {
+        retryTimer = null;
+        try {
+            startDraining();
+        } catch (err) {
+            logger.error("🔥 Failed to restart the wiki-push job:", err);
+        }
+    }, delayMs);
+    retryTimer.unref();
+}
+
+/**
+ * Make sure a wiki-push job is draining the queue (an earlier failure's retry is folded in)
+ */
+function startDraining(): Job | null {
+    if (draining || pending.size === 0) {
+        return findRunningJob("wiki-push");
+    }
+
+    if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+    }
+
+    draining = true;
+    try {
+        return startJob("wiki-push", processWikiPushes);
+    } catch (err) {
+        draining = false;
+        throw err;
+    }
+}
+
+/**
+ * Queue the changes and make sure a wiki-push job is draining the queue
+ */
+export function enqueueWikiChanges(wiki: WikiConfig, changes: WikiPushChanges): Job | null {
+    const queued = pendingFor(wiki.key);
+    for (const [page, action] of changes.pages) queued.pages.set(page, action);
+    for (const [image, action] of changes.images) queued.images.set(image, action);
+
+    return startDraining();
+}
+
+// ================= HANDLER =================
+
+export async function handleWikiPush(req: any, res: any) {
+    const payload = req.body || {};
+
+    if (payload.eventType !== "git.push") {
+        return res.status(200).json({ message: `Ignored event type: ${payload.eventType || "unknown"}` });
+    }
+
+    let resolved: Awaited<ReturnType<typeof resolvePushChanges>>;
+    try {
+        resolved = await resolvePushChanges(payload);
+    } catch (error) {
+        logger.error("🔥 Failed to resolve wiki push changes:", error);
+        // Non-2xx → Azure DevOps retries the delivery
+        return res.status(502).json({ error: (error as Error).message });
+    }
+
+    if (!resolved) {
+        return res.status(200).json({ message: "Push is not for a configured wiki" });
+    }
+
+    const { wiki, changes } = resolved;
+    if (changes.pages.size === 0 && changes.images.size === 0) {
+        return res.status(200).json({ message: "No wiki page or attachment changes", wiki: wiki.key });
+    }
+
+    const job = enqueueWikiChanges(wiki, changes);
+    logger.info(`📬 Wiki push queued for ${wiki.key}: ${changes.pages.size} page(s), ${changes.images.size} attachment(s)`);
+
+    res.status(202).json({
+        message: "Wiki changes queued",
+        wiki: wiki.key,
+        jobId: job?.id,
+        pages: Object.fromEntries(changes.pages),
+        images: Array.from(changes.images.keys()).map(image => wikiImageFileName(image, wiki))
+    });
+}
@@ -0,0 +1,67 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { useTempWorkspace, writeWikiFile } from "./helpers";
+
+const workspace = useTempWorkspace();
+const { buildSources } = require("../src/citations") as typeof import("../src/citations");
+const { saveManifest } = require("../src/ragManifest") as typeof import("../src/ragManifest");
+
+const STORE = "fileSearchStores/test-store";
+
+writeWikiFile(workspace, "_Network_VPN.json", {
+    title: "/Network/VPN",
+    source: "https://dev.azure.com/org/project/_wiki/wikis/wiki?pagePath=%2FNetwork%2FVPN",
+    content: "# VPN\n\nConnect first.\n\n## Reset the client\n\nQuit and sign in again."
+});
+writeWikiFile(workspace, "platform__Certs.json", {
+    wiki: "platform",
+    title: "/Certs",
+    source: "https://dev.azure.com/org/platform/_wiki/wikis/platform?pagePath=%2FCerts",
+    content: "# Certificates\n\nRotate yearly."
+});
+
+const image = (sourcePath: string) =>
+    ({ type: "wiki-image" as const, hash: "h", documentName: "doc", sourcePath, uploadedAt: "2026-01-01T00:00:00Z" });
+
+// Both wikis have an attachment called diagram.png
+saveManifest({
+    store: STORE,
+    entries: {
+        "diagram.png": image("/Network/VPN"),
+        "platform/diagram.png": image("/Certs")
+    }
+});
+
+const chunk = (title: string, text = "") => ({ title, text });
+
+test("section chunks link to their heading", () => {
+    const [source] = buildSources([chunk("_Network_VPN.json#reset-the-client", "TITLE: /Network/VPN\nSOURCE: x\nQuit and sign in again.")], STORE);
+    assert.deepEqual(source, {
+        title: "/Network/VPN › Reset the client",
+        remoteUrl: "https://dev.azure.com/org/project/_wiki/wikis/wiki?pagePath=%2FNetwork%2FVPN&anchor=reset-the-client",
+        snippet: "Quit and sign in again.",
+        section: "VPN › Reset the client"
+    });
+});
+
+test("one source per section, in retrieval order", () => {
+    const sources = buildSources([
+        chunk("platform__Certs.json#certificates"),
+        chunk("_Network_VPN.json#vpn"),
+        chunk("platform__Certs.json#certificates"),
+        chunk("_Network_VPN.json")
+    ], STORE);
+    assert.deepEqual(sources.map(s => s.title), ["/Certs › Certificates", "/Network/VPN › VPN", "/Network/VPN"]);
+});
+
+test("image descriptions cite the page of the image in the same wiki", () => {
+    assert.deepEqual(buildSources([chunk("platform/diagram.txt")], STORE).map(s => s.title), ["/Certs"]);
+    assert.deepEqual(buildSources([chunk("diagram.txt")], STORE).map(s => s.title), ["/Network/VPN"]);
+});
+
+test("unknown documents keep their title without a link", () => {
+    const [source] = buildSources([chunk("notes.txt", "x".repeat(400))], STORE);
+    assert.equal(source.title, "notes.txt");
+    assert.equal(source.remoteUrl, "");
+    assert.equal(source.snippet, "x".repeat(300) + "…");
+});
@@ -0,0 +1,55 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { parseCron, nextCronRun } from "../src/utils/cron";
+
+// Cron runs in server local time → build the dates in local time too
+const at = (y: number, m: number, d: number, h = 0, min = 0) => new Date(y, m - 1, d, h, min);
+
+test("parseCron expands lists, ranges and steps", () => {
+    const schedule = parseCron("*/15 0-20/10 1,15 * 1-5");
+    assert.deepEqual([...schedule.minute.values], [0, 15, 30, 45]);
+    assert.deepEqual([...schedule.hour.values], [0, 10, 20]);
+    assert.deepEqual([...schedule.dayOfMonth.values], [1, 15]);
+    assert.equal(schedule.month.values.size, 12);
+    assert.deepEqual([...schedule.dayOfWeek.values], [1, 2, 3, 4, 5]);
+});
+
+test("a single value with a step runs to the end of the range", () => {
+    assert.deepEqual([...parseCron("50/5 * * * *").minute.values], [50, 55]);
+});
+
+test("7 is Sunday", () => {
+    assert.ok(parseCron("0 0 * * 7").dayOfWeek.values.has(0));
+});
+
+test("parseCron rejects malformed expressions", () => {
+    assert.throws(() => parseCron("0 2 * *"), /5 fields, got 4/);
+    assert.throws(() => parseCron("60 * * * *"), /allowed 0-59/);
+    assert.throws(() => parseCron("*/0 * * * *"), /Invalid cron step/);
+    assert.throws(() => parseCron("0 5-1 * * *"), /Invalid cron value "5-1"/);
+    assert.throws(() => parseCron("0 0 0 * *"), /allowed 1-31/);
+});
+
+test("nextCronRun returns the first matching minute strictly after the start", () => {
+    const nightly = parseCron("0 2 * * *");
+    assert.deepEqual(nextCronRun(nightly, at(2026, 1, 5, 10, 0)), at(2026, 1, 6, 2, 0));
+    assert.deepEqual(nextCronRun(nightly, at(2026, 1, 5, 1, 59)), at(2026, 1, 5, 2, 0));
+    assert.deepEqual(nextCronRun(nightly, at(2026, 1, 5, 2, 0)), at(2026, 1, 6, 2, 0));
+});
+
+test("seconds of the start time are ignored", () => {
+    const everyMinute = parseCron("* * * * *");
+    assert.deepEqual(nextCronRun(everyMinute, new Date(2026, 0, 5, 10, 0, 42)), at(2026, 1, 5, 10, 1));
+});
+
+test("either day field may match when both are restricted", () => {
+    // 1 Jan 2026 is a Thursday → Friday the 2nd comes before the 13th
+    assert.deepEqual(nextCronRun(parseCron("0 0 13 * 5"), at(2026, 1, 1, 12)), at(2026, 1, 2));
+    // Only the day of week restricted → every Monday
+    assert.deepEqual(nextCronRun(parseCron("30 8 * * 1"), at(2026, 1, 1)), at(2026, 1, 5, 8, 30));
+});
+
+test("29 February waits for the next leap year; impossible dates throw", () => {
+    assert.deepEqual(nextCronRun(parseCron("0 0 29 2 *"), at(2026, 3, 1)), at(2028, 2, 29));
+    assert.throws(() => nextCronRun(parseCron("0 0 31 2 *"), at(2026, 1, 1)), /never matches/);
+});
@@ -0,0 +1,107 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { SearchResult } from "../src/geminiService";
+import {
+    scoreEvalCase,
+    summarizeEvalResults,
+    runEvaluation,
+    compareEvalReports,
+    checkEvalThresholds,
+    EvalReport
+} from "../src/evaluation";
+
+const answer = (text: string, titles: string[], extra: Partial<SearchResult> = {}): SearchResult =>
+    ({ answer: text, sources: titles.map(title => ({ title, remoteUrl: "", snippet: "" })), rewrittenQuery: "", ...extra }) as SearchResult;
+
+const vpnCase = {
+    id: "vpn",
+    question: "How do I reset the VPN client?",
+    expectedPages: ["/Network/VPN", "/Network/VPN-Troubleshooting"],
+    requiredKeywords: ["GlobalProtect", "sign in"]
+};
+
+test("sections count for their page and page names match loosely", () => {
+    const result = scoreEvalCase(vpnCase, answer(
+        "Quit **GlobalProtect** and connect again.",
+        ["/Network/VPN › Reset the client", "/network/vpn troubleshooting/", "/Network/VPN"]
+    ));
+
+    assert.deepEqual(result.retrievedPages, ["/Network/VPN", "/network/vpn troubleshooting/"]);
+    assert.deepEqual(result.expectedPagesFound, ["/Network/VPN", "/Network/VPN-Troubleshooting"]);
+    assert.equal(result.hit, true);
+    assert.deepEqual(result.keywordsMissing, ["sign in"]);
+    assert.equal(result.keywordCoverage, 0.5);
+    assert.equal(result.couldNotFind, false);
+});
+
+test("could-not-find answers and cases without expectations", () => {
+    const notFound = scoreEvalCase({ id: "x", question: "?" }, answer("I could not find information about this in the wiki.", []));
+    assert.equal(notFound.couldNotFind, true);
+    assert.equal(notFound.hit, null);
+    assert.equal(notFound.keywordCoverage, null);
+
+    assert.equal(scoreEvalCase({ id: "y", question: "?" }, answer("Something", [], { empty: true })).couldNotFind, true);
+    assert.equal(scoreEvalCase({ id: "z", question: "?" }, answer("Something", [], { fallback: true })).fallback, true);
+});
+
+test("summaries average only the cases a metric applies to", () => {
+    const summary = summarizeEvalResults([
+        scoreEvalCase(vpnCase, answer("GlobalProtect, then sign in", ["/Network/VPN"])),
+        scoreEvalCase({ id: "b", question: "?", expectedPages: ["/Deploy"], requiredKeywords: ["stage"] }, answer("No answer found.", [])),
+        scoreEvalCase({ id: "c", question: "?" }, answer("Hello", []))
+    ]);
+
+    assert.deepEqual(summary, {
+        cases: 3,
+        retrievalHitRate: 0.5,
+        pageRecall: 0.3333,
+        keywordCoverage: 0.5,
+        couldNotFindRate: 0.3333,
+        fallbackRate: 0,
+        errors: 0
+    });
+});
+
+test("runEvaluation bypasses the cache, keeps going after errors and sorts cases by id", async () => {
+    const calls: unknown[] = [];
+    const report = await runEvaluation(
+        { cases: [{ id: "b", question: "boom", expectedPages: ["/X"] }, { ...vpnCase, id: "a", scope: "platform" }] },
+        async (question, _prompt, options) => {
+            calls.push(options);
+            if (question === "boom") throw new Error("provider down");
+            return answer("GlobalProtect sign in", ["/Network/VPN"]);
+        },
+        { provider: "local", casesFile: "cases.json" }
+    );
+
+    assert.deepEqual(calls, [{ scope: undefined, bypassCache: true }, { scope: "platform", bypassCache: true }]);
+    assert.deepEqual(report.cases.map(c => [c.id, c.hit, c.error]), [["a", true, undefined], ["b", false, "provider down"]]);
+    assert.equal(report.summary.errors, 1);
+});
+
+const report = (summary: Partial<EvalReport["summary"]>, cases: { id: string; hit: boolean | null }[] = []) =>
+    ({
+        summary: { cases: 1, retrievalHitRate: 1, pageRecall: 1, keywordCoverage: 1, couldNotFindRate: 0, fallbackRate: 0, errors: 0, ...summary },
+        cases
+    }) as EvalReport;
+
+test("regressions beyond the tolerance and cases that stopped hitting are reported", () => {
+    const baseline = report({ retrievalHitRate: 0.9, keywordCoverage: 0.8 }, [{ id: "a", hit: true }, { id: "b", hit: false }]);
+    const current = report({ retrievalHitRate: 0.85, keywordCoverage: 0.7, couldNotFindRate: 0.2 }, [{ id: "a", hit: false }, { id: "b", hit: true }]);
+
+    assert.deepEqual(compareEvalReports(current, baseline, 0.05), [
+        { metric: "keywordCoverage", baseline: 0.8, current: 0.7 },
+        { metric: "couldNotFindRate", baseline: 0, current: 0.2 },
+        { metric: "hit", caseId: "a", baseline: true, current: false }
+    ]);
+    assert.deepEqual(compareEvalReports(baseline, baseline), []);
+});
+
+test("thresholds are minimums, except the could-not-find rate", () => {
+    const summary = report({ retrievalHitRate: 0.7, keywordCoverage: null, couldNotFindRate: 0.3 }).summary;
+    assert.deepEqual(checkEvalThresholds(summary, { retrievalHitRate: 0.8, keywordCoverage: 0.9, couldNotFindRate: 0.2 }), [
+        { metric: "retrievalHitRate", baseline: 0.8, current: 0.7 },
+        { metric: "couldNotFindRate", baseline: 0.2, current: 0.3 }
+    ]);
+    assert.deepEqual(checkEvalThresholds(summary), []);
+});
@@ -0,0 +1,31 @@
+// test/helpers.ts
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+/**
+ * Modules resolve config/ from the working directory when they load → switch to a scratch
+ * workspace first, then require the module under test. Removed when the test process exits.
+ */
+export function useTempWorkspace(): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "wiki-rag-test-"));
+    process.chdir(dir);
+    process.env.LOG_LEVEL = process.env.LOG_LEVEL || "error";
+    process.on("exit", () => fs.rmSync(dir, { recursive: true, force: true }));
+    return dir;
+}
+
+/**
+ * Write an export file the way wikiService does (config/wiki-files/<file>)
+ */
+export function writeWikiFile(workspace: string, file: string, page: { title: string; content: string; wiki?: string; source?: string }) {
+    const dir = path.join(workspace, "config", "wiki-files");
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, file), JSON.stringify({
+        wiki: page.wiki,
+        title: page.title,
+        source: page.source || `https://dev.azure.com/org/project/_wiki/wikis/wiki?pagePath=${encodeURIComponent(page.title)}`,
+        content: page.content,
+        images: []
+    }, null, 2), "utf8");
+}
@@ -0,0 +1,87 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { useTempWorkspace, writeWikiFile } from "./helpers";
+
+const workspace = useTempWorkspace();
+const { searchLocalIndex, lookupWikiPage, tokenize, invalidateLocalSearchIndex } =
+    require("../src/localSearch") as typeof import("../src/localSearch");
+
+writeWikiFile(workspace, "_Network_VPN.json", {
+    title: "/Network/VPN",
+    content: "# VPN\n\nConnect with GlobalProtect.\n\n## Reset the client\n\nQuit the client and sign in again."
+});
+writeWikiFile(workspace, "_Deploy_Release.json", {
+    title: "/Deploy/Release",
+    content: "# Release\n\nDeploying to production needs an approved stage gate. The VPN is not involved."
+});
+writeWikiFile(workspace, "platform__Certs.json", {
+    wiki: "platform",
+    title: "/Certs",
+    content: "# Certificates\n\nRotate certificates every year."
+});
+
+test("tokenize drops stopwords and stems suffixes", () => {
+    assert.deepEqual(tokenize("How do I reset the deployed VPN clients?"), ["reset", "deploy", "vpn", "client"]);
+});
+
+test("a title match outranks a passing mention in the text", () => {
+    const results = searchLocalIndex("vpn");
+    assert.deepEqual(results.map(r => r.title), ["/Network/VPN", "/Deploy/Release"]);
+    assert.ok(results[0].score > results[1].score);
+});
+
+test("stemmed query terms match other word forms", () => {
+    assert.equal(searchLocalIndex("deploys")[0]?.title, "/Deploy/Release");
+});
+
+test("a wiki key restricts results to that wiki", () => {
+    assert.deepEqual(searchLocalIndex("rotate certificates", 5, "platform").map(r => r.title), ["/Certs"]);
+    assert.deepEqual(searchLocalIndex("rotate certificates", 5, "default"), []);
+});
+
+test("snippets start near the first matching term", () => {
+    const [result] = searchLocalIndex("stage gate");
+    assert.match(result.snippet, /stage gate/);
+});
+
+test("lookupWikiPage resolves files, titles and section anchors", () => {
+    assert.equal(lookupWikiPage("/Network/VPN")?.file, "_Network_VPN.json");
+
+    const section = lookupWikiPage("_Network_VPN.json#reset-the-client");
+    assert.equal(section?.section, "VPN › Reset the client");
+    assert.match(section!.remoteUrl, /&anchor=reset-the-client$/);
+
+    assert.equal(lookupWikiPage("_Unknown.json"), null);
+});
+
+test("new export files are picked up without invalidation", () => {
+    writeWikiFile(workspace, "_Accounts_MFA.json", { title: "/Accounts/MFA", content: "Enroll an authenticator app." });
+    assert.equal(searchLocalIndex("authenticator")[0]?.title, "/Accounts/MFA");
+});
+
+test("rewrites in place are picked up after invalidateLocalSearchIndex", () => {
+    writeWikiFile(workspace, "_Accounts_MFA.json", { title: "/Accounts/MFA", content: "Enroll a hardware key." });
+    invalidateLocalSearchIndex();
+    assert.equal(searchLocalIndex("hardware")[0]?.title, "/Accounts/MFA");
+});
+
+test("a file removed while the folder is read is skipped, not an error", () => {
+    const file = path.join(workspace, "config", "wiki-files", "_Accounts_MFA.json");
+    const readFileSync = fs.readFileSync;
+    (fs as any).readFileSync = (target: any, ...rest: any[]) => {
+        if (target === file) {
+            throw Object.assign(new Error("ENOENT: no such file"), { code: "ENOENT" });
+        }
+        return (readFileSync as any)(target, ...rest);
+    };
+    try {
+        invalidateLocalSearchIndex();
+        assert.deepEqual(searchLocalIndex("hardware"), []);
+    } finally {
+        (fs as any).readFileSync = readFileSync;
+    }
+    // The next search rebuilds instead of keeping the partial index
+    assert.equal(searchLocalIndex("hardware")[0]?.title, "/Accounts/MFA");
+});
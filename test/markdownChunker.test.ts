@@ -0,0 +1,77 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { chunkMarkdown, headingAnchor } from "../src/markdownChunker";
+
+test("text is split into heading sections with breadcrumbs", () => {
+    const chunks = chunkMarkdown([
+        "Intro text.",
+        "# Certs",
+        "## Rotation",
+        "Rotate yearly.",
+        "### Step 1: Renew cert",
+        "Open the portal.",
+        "## Revocation",
+        "Call security."
+    ].join("\n"));
+
+    assert.deepEqual(chunks.map(c => [c.anchor, c.breadcrumb.join(" > "), c.text]), [
+        ["", "", "Intro text."],
+        ["rotation", "Certs > Rotation", "Rotate yearly."],
+        ["step-1%3A-renew-cert", "Certs > Rotation > Step 1: Renew cert", "Open the portal."],
+        ["revocation", "Certs > Revocation", "Call security."]
+    ]);
+    assert.deepEqual(chunks.map(c => c.index), [0, 1, 2, 3]);
+});
+
+test("closing hashes need a space before them", () => {
+    const chunks = chunkMarkdown("## Using C#\nText.\n## Closed heading ##\nMore.\n# F# #\nEnd.");
+    assert.deepEqual(chunks.map(c => c.heading), ["Using C#", "Closed heading", "F#"]);
+});
+
+test("headings need a space after the hashes and at most 3 spaces of indent", () => {
+    const chunks = chunkMarkdown("#hashtag\n   # Heading\nText.\n####### seven");
+    assert.deepEqual(chunks.map(c => [c.heading, c.text]), [
+        ["", "#hashtag"],
+        ["Heading", "Text.\n####### seven"]
+    ]);
+});
+
+test("headings inside fenced code are not sections", () => {
+    const chunks = chunkMarkdown("# Script\n```bash\n# install\n\napt install x\n```\n## After\nDone.");
+    assert.equal(chunks.length, 2);
+    assert.equal(chunks[0].text, "```bash\n# install\n\napt install x\n```");
+});
+
+test("indented code stays one block, blank lines included", () => {
+    const page = "# Config\n\n    | not | a table |\n\n    key: value\n\nAfter the code.";
+    const chunks = chunkMarkdown(page, 10);
+    assert.deepEqual(chunks.map(c => c.text), ["    | not | a table |\n\n    key: value", "After the code."]);
+});
+
+test("an indented line right after a paragraph continues the paragraph", () => {
+    const [chunk] = chunkMarkdown("Run this\n    npm start\nthen wait.");
+    assert.equal(chunk.text, "Run this\n    npm start\nthen wait.");
+});
+
+test("tables are kept whole", () => {
+    const table = "| a | b |\n|---|---|\n| 1 | 2 |";
+    const chunks = chunkMarkdown(`Before.\n${table}\nAfter.`, 10);
+    assert.deepEqual(chunks.map(c => c.text), ["Before.", table, "After."]);
+});
+
+test("long sections are split between blocks, never inside one", () => {
+    const para = (n: number) => `Paragraph ${n} ` + "x".repeat(40);
+    const chunks = chunkMarkdown(`# Long\n${para(1)}\n\n${para(2)}\n\n${para(3)}`, 120);
+    assert.deepEqual(chunks.map(c => c.text), [`${para(1)}\n\n${para(2)}`, para(3)]);
+    assert.ok(chunks.every(c => c.anchor === "long"));
+});
+
+test("sections without text are skipped and repeated headings get numbered anchors", () => {
+    const chunks = chunkMarkdown("# Empty\n## Notes\nOne.\n## Notes\nTwo.");
+    assert.deepEqual(chunks.map(c => c.anchor), ["notes", "notes-1"]);
+});
+
+test("headingAnchor lowercases, dashes spaces and encodes symbols", () => {
+    assert.equal(headingAnchor("Step 2: Install"), "step-2%3A-install");
+    assert.equal(headingAnchor("[Link](http://x) and `code`"), "link-and-code");
+});
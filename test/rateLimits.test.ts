@@ -0,0 +1,138 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { useTempWorkspace } from "./helpers";
+
+const workspace = useTempWorkspace();
+fs.mkdirSync(path.join(workspace, "config"), { recursive: true });
+fs.writeFileSync(path.join(workspace, "config", "rate-limits.json"), JSON.stringify({
+    user: { capacity: 3, refillPerMinute: 6 },          // one token every 10s
+    channel: { capacity: 4, refillPerMinute: 4 },
+    workspace: null,
+    dailyQuota: 5,
+    channels: { CBUSY: { capacity: 1 } }
+}));
+
+const { checkRateLimit, validateRateLimitConfig } = require("../src/rateLimits") as typeof import("../src/rateLimits");
+const { MemoryRateLimitStore, FileRateLimitStore, setRateLimitStore } =
+    require("../src/rateLimitStore") as typeof import("../src/rateLimitStore");
+
+const realNow = Date.now;
+let clock = 0;
+
+test.beforeEach(() => {
+    clock = Date.parse("2026-01-05T12:00:00Z");
+    Date.now = () => clock;
+    setRateLimitStore(new MemoryRateLimitStore());
+});
+test.afterEach(() => {
+    Date.now = realNow;
+});
+
+async function ask(times: number, subject: { user: string; channel?: string }) {
+    const decisions = [];
+    for (let i = 0; i < times; i++) decisions.push(await checkRateLimit(subject));
+    return decisions;
+}
+
+test("a bucket allows its burst, then waits for one refill", async () => {
+    const decisions = await ask(4, { user: "U1" });
+    assert.deepEqual(decisions.map(d => d.allowed), [true, true, true, false]);
+    assert.equal(decisions[3].policy, "user");
+    assert.equal(decisions[3].limit, 3);
+    assert.equal(decisions[3].retryAfterMs, 10_000);
+    assert.equal(decisions[3].retryAt!.getTime(), clock + 10_000);
+
+    clock += 9_999;
+    assert.equal((await checkRateLimit({ user: "U1" })).allowed, false);
+    clock += 1;
+    assert.equal((await checkRateLimit({ user: "U1" })).allowed, true);
+});
+
+test("refills never go over the capacity", async () => {
+    await ask(3, { user: "U1" });
+    clock += 24 * 60 * 60_000;   // a new day, so the daily quota doesn't interfere
+    const decisions = await ask(4, { user: "U1" });
+    assert.deepEqual(decisions.map(d => d.allowed), [true, true, true, false]);
+    assert.equal(decisions[3].policy, "user");
+});
+
+test("a rejected request takes no token from the other buckets", async () => {
+    await ask(3, { user: "U1", channel: "C1" });
+    // U1's own bucket refuses its fourth question, which leaves the channel's last token for U2
+    assert.equal((await checkRateLimit({ user: "U1", channel: "C1" })).policy, "user");
+    assert.equal((await checkRateLimit({ user: "U2", channel: "C1" })).allowed, true);
+
+    const refused = await checkRateLimit({ user: "U2", channel: "C1" });
+    assert.equal(refused.policy, "channel");
+    assert.equal(refused.retryAfterMs, 15_000);
+
+    // The channel refusal left U2's own bucket at 2 tokens
+    assert.deepEqual((await ask(3, { user: "U2" })).map(d => d.allowed), [true, true, false]);
+});
+
+test("channel overrides replace single fields of the channel policy", async () => {
+    const decisions = await ask(2, { user: "U1", channel: "CBUSY" });
+    assert.deepEqual(decisions.map(d => d.allowed), [true, false]);
+    assert.equal(decisions[1].limit, 1);
+    assert.equal(decisions[1].retryAfterMs, 15_000);
+});
+
+test("the daily quota resets at the next UTC midnight and wins over shorter waits", async () => {
+    for (let i = 0; i < 5; i++) {
+        assert.equal((await checkRateLimit({ user: "U1" })).allowed, true);
+        clock += 10_000;
+    }
+
+    const refused = await checkRateLimit({ user: "U1" });
+    assert.equal(refused.policy, "daily");
+    assert.equal(refused.limit, 5);
+    assert.equal(refused.retryAt!.toISOString(), "2026-01-06T00:00:00.000Z");
+
+    clock = Date.parse("2026-01-06T00:00:00Z");
+    assert.equal((await checkRateLimit({ user: "U1" })).allowed, true);
+});
+
+test("validateRateLimitConfig names every bad field", () => {
+    assert.deepEqual(validateRateLimitConfig({ user: null, dailyQuota: 0 }), []);
+    assert.deepEqual(validateRateLimitConfig({
+        user: { capacity: 0, refillPerMinute: 1 },
+        channel: "fast",
+        dailyQuota: -1,
+        workspaces: { T1: { dailyQuota: "10" } }
+    }), [
+        "user.capacity must be a positive number",
+        "channel must be an object or null",
+        "dailyQuota must be a non-negative number",
+        "workspaces.T1.dailyQuota must be a non-negative number"
+    ]);
+});
+
+test("file stores on the same file share buckets", async () => {
+    const file = path.join(workspace, "config", "shared-state.json");
+    const first = new FileRateLimitStore(file);
+    const second = new FileRateLimitStore(file);
+
+    setRateLimitStore(first);
+    await ask(2, { user: "U1" });
+    setRateLimitStore(second);
+    assert.deepEqual((await ask(2, { user: "U1" })).map(d => d.allowed), [true, false]);
+    assert.equal(fs.existsSync(`${file}.lock`), false);
+});
+
+test("a stale lock is broken, a lock taken over by another owner is left alone", async () => {
+    Date.now = realNow;
+    const file = path.join(workspace, "config", "lock-state.json");
+    const lockFile = `${file}.lock`;
+    const store = new FileRateLimitStore(file);
+
+    fs.writeFileSync(lockFile, "crashed-process");
+    const old = new Date(realNow() - 60_000);
+    fs.utimesSync(lockFile, old, old);
+    assert.equal(await store.atomically(async () => fs.readFileSync(lockFile, "utf8").startsWith(`${process.pid}-`)), true);
+    assert.equal(fs.existsSync(lockFile), false);
+
+    await store.atomically(async () => fs.writeFileSync(lockFile, "other-replica"));
+    assert.equal(fs.readFileSync(lockFile, "utf8"), "other-replica");
+});
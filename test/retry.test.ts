@@ -0,0 +1,84 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { withRetry, retryAfterMs, isRetryableError, backoffDelayMs, RetryOptions } from "../src/utils/retry";
+
+const httpError = (status: number, retryAfter?: string) =>
+    Object.assign(new Error(`HTTP ${status}`), { response: { status, headers: retryAfter === undefined ? {} : { "retry-after": retryAfter } } });
+
+const options = (overrides: Partial<RetryOptions> = {}): RetryOptions =>
+    ({ maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 20, ...overrides });
+
+test("retryAfterMs reads delay-seconds and HTTP dates", () => {
+    const now = Date.parse("2026-01-05T10:00:00Z");
+    assert.equal(retryAfterMs(httpError(429, "30")), 30_000);
+    assert.equal(retryAfterMs(httpError(429, "Mon, 05 Jan 2026 10:00:12 GMT"), now), 12_000);
+    assert.equal(retryAfterMs(httpError(429, "Mon, 05 Jan 2026 09:00:00 GMT"), now), 0);
+    assert.equal(retryAfterMs(httpError(429, "soon")), null);
+    assert.equal(retryAfterMs(httpError(429, "")), null);
+    assert.equal(retryAfterMs(httpError(429)), null);
+});
+
+test("throttling, server errors and dropped connections are retryable", () => {
+    assert.ok(isRetryableError(httpError(429)));
+    assert.ok(isRetryableError(httpError(503)));
+    assert.ok(isRetryableError(httpError(408)));
+    assert.ok(isRetryableError(Object.assign(new Error("reset"), { code: "ECONNRESET" })));
+    assert.ok(!isRetryableError(httpError(404)));
+    assert.ok(!isRetryableError(new Error("bug")));
+});
+
+test("backoff doubles per attempt, stays within the cap and keeps at least half", () => {
+    const opts = options({ baseDelayMs: 100, maxDelayMs: 1000 });
+    for (let i = 0; i < 20; i++) {
+        const third = backoffDelayMs(3, opts);
+        assert.ok(third >= 200 && third <= 400, `attempt 3: ${third}`);
+        const tenth = backoffDelayMs(10, opts);
+        assert.ok(tenth >= 500 && tenth <= 1000, `attempt 10: ${tenth}`);
+    }
+});
+
+test("a Retry-After longer than maxDelayMs is capped", async () => {
+    const delays: number[] = [];
+    let calls = 0;
+    const result = await withRetry(async () => {
+        if (++calls === 1) throw httpError(429, "3600");
+        return "ok";
+    }, options({ onRetry: (_attempt, delayMs) => delays.push(delayMs) }));
+
+    assert.equal(result, "ok");
+    assert.deepEqual(delays, [20]);
+});
+
+test("a short Retry-After wins over the backoff", async () => {
+    const delays: number[] = [];
+    let calls = 0;
+    await withRetry(async () => {
+        if (++calls === 1) throw httpError(503, "0");
+        return "ok";
+    }, options({ baseDelayMs: 1000, maxDelayMs: 5000, onRetry: (_attempt, delayMs) => delays.push(delayMs) }));
+
+    assert.deepEqual(delays, [0]);
+});
+
+test("gives up after maxAttempts and never retries client errors", async () => {
+    let calls = 0;
+    await assert.rejects(withRetry(async () => { calls++; throw httpError(500); }, options()), /HTTP 500/);
+    assert.equal(calls, 3);
+
+    calls = 0;
+    await assert.rejects(withRetry(async () => { calls++; throw httpError(400); }, options()), /HTTP 400/);
+    assert.equal(calls, 1);
+});
+
+test("an abort during the wait stops retrying", async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const started = Date.now();
+    const run = withRetry(async () => { calls++; throw httpError(429, "10"); },
+        options({ maxDelayMs: 10_000, signal: controller.signal }));
+    setTimeout(() => controller.abort(), 20);
+
+    await assert.rejects(run, /HTTP 429/);
+    assert.equal(calls, 1);
+    assert.ok(Date.now() - started < 5000);
+});
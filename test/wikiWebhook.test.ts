@@ -0,0 +1,55 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { useTempWorkspace } from "./helpers";
+
+useTempWorkspace();
+const { classifyWikiChanges } = require("../src/wikiWebhook") as typeof import("../src/wikiWebhook");
+const { gitPathToWikiPagePath } = require("../src/wikiService") as typeof import("../src/wikiService");
+
+test("gitPathToWikiPagePath turns dashes into spaces and decodes escaped characters", () => {
+    assert.equal(gitPathToWikiPagePath("/Ops/VPN-Setup.md"), "/Ops/VPN Setup");
+    assert.equal(gitPathToWikiPagePath("/Ops/Self%2DService-Portal.md"), "/Ops/Self-Service Portal");
+    assert.equal(gitPathToWikiPagePath("/Q%26A/Why%3F.MD"), "/Q&A/Why?");
+});
+
+test("classifyWikiChanges maps markdown files to page upserts and deletes", () => {
+    const changes = classifyWikiChanges([
+        { path: "/Ops/VPN-Setup.md", changeType: "edit" },
+        { path: "/Ops/Old-Page.md", changeType: "delete" },
+        { path: "/Ops/New-Page.md", changeType: "add" }
+    ]);
+
+    assert.deepEqual(Object.fromEntries(changes.pages), {
+        "/Ops/VPN Setup": "upsert",
+        "/Ops/Old Page": "delete",
+        "/Ops/New Page": "upsert"
+    });
+    assert.equal(changes.images.size, 0);
+});
+
+test("a rename deletes the page under its old path", () => {
+    const changes = classifyWikiChanges([
+        { path: "/Ops/VPN-Guide.md", changeType: "edit, rename", originalPath: "/Ops/VPN-Setup.md" }
+    ]);
+
+    assert.deepEqual(Object.fromEntries(changes.pages), {
+        "/Ops/VPN Setup": "delete",
+        "/Ops/VPN Guide": "upsert"
+    });
+});
+
+test("only image attachments are kept; .order and other files are ignored", () => {
+    const changes = classifyWikiChanges([
+        { path: "/.attachments/diagram-1.png", changeType: "add" },
+        { path: "/.attachments/old.JPG", changeType: "delete" },
+        { path: "/.attachments/manual.pdf", changeType: "add" },
+        { path: "/Ops/.order", changeType: "edit" },
+        { path: "/Ops", changeType: "add" }
+    ]);
+
+    assert.equal(changes.pages.size, 0);
+    assert.deepEqual(Object.fromEntries(changes.images), {
+        "/.attachments/diagram-1.png": "changed",
+        "/.attachments/old.JPG": "deleted"
+    });
+});